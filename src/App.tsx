@@ -14,6 +14,12 @@ import { Loader2 } from "lucide-react";
 // Lazy load components for better performance
 const CustomerPortal = lazy(() => import("./pages/CustomerPortal"));
 const DocumentList = lazy(() => import("./pages/DocumentList"));
+const DocumentDetail = lazy(() => import("./pages/DocumentDetail"));
+const DraftList = lazy(() => import("./pages/DraftList"));
+const DocumentLibrary = lazy(() => import("./pages/DocumentLibrary"));
+const CertificateDashboard = lazy(
+  () => import("./pages/CertificateDashboard")
+);
 const Login = lazy(() => import("./components/auth/Login"));
 const Register = lazy(() => import("./components/auth/Register"));
 
@@ -99,6 +105,24 @@ function App() {
                   >
                     View Documents
                   </Link>
+                  <Link
+                    to="/drafts"
+                    className="hover:text-gray-300 transition-colors"
+                  >
+                    Drafts
+                  </Link>
+                  <Link
+                    to="/library"
+                    className="hover:text-gray-300 transition-colors"
+                  >
+                    Library
+                  </Link>
+                  <Link
+                    to="/certificates"
+                    className="hover:text-gray-300 transition-colors"
+                  >
+                    Certificates
+                  </Link>
                 </>
               ) : (
                 <>
@@ -149,6 +173,38 @@ function App() {
                   </PrivateRoute>
                 }
               />
+              <Route
+                path="/documents/:id"
+                element={
+                  <PrivateRoute>
+                    <DocumentDetail />
+                  </PrivateRoute>
+                }
+              />
+              <Route
+                path="/drafts"
+                element={
+                  <PrivateRoute>
+                    <DraftList />
+                  </PrivateRoute>
+                }
+              />
+              <Route
+                path="/library"
+                element={
+                  <PrivateRoute>
+                    <DocumentLibrary />
+                  </PrivateRoute>
+                }
+              />
+              <Route
+                path="/certificates"
+                element={
+                  <PrivateRoute>
+                    <CertificateDashboard />
+                  </PrivateRoute>
+                }
+              />
               <Route path="*" element={<Navigate to="/" replace />} />
             </Routes>
           </Suspense>
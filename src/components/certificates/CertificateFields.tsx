@@ -0,0 +1,104 @@
+import React, { useState } from "react";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import FscRegistryStatus from "./FscRegistryStatus";
+import {
+  CertificateField,
+  daysUntilExpiry,
+  emptyCertificate,
+  isFscCategory,
+  validateCertificate,
+} from "../../lib/certificates";
+import { FscRegistryIndex } from "../../lib/fsc";
+import { cn } from "../../lib/utils";
+import { CertificateDetails, FileData } from "../../types/submission";
+
+interface CertificateFieldsProps {
+  id: string;
+  category: keyof FileData;
+  value: CertificateDetails | undefined;
+  onChange: (details: CertificateDetails) => void;
+  // Show every error, not just those of fields the user has left
+  showAllErrors: boolean;
+  fscRegistry: FscRegistryIndex | null;
+}
+
+const CertificateFields: React.FC<CertificateFieldsProps> = ({
+  id,
+  category,
+  value,
+  onChange,
+  showAllErrors,
+  fscRegistry,
+}) => {
+  const details = value || emptyCertificate();
+  const [touched, setTouched] = useState<
+    Partial<Record<CertificateField, true>>
+  >({});
+  const errors = validateCertificate(details, category);
+  const fsc = isFscCategory(category);
+
+  const errorFor = (field: CertificateField) =>
+    showAllErrors || touched[field] ? errors[field] : undefined;
+
+  const field = (
+    name: CertificateField,
+    label: string,
+    props: React.InputHTMLAttributes<HTMLInputElement> = {}
+  ) => (
+    <div>
+      <Label htmlFor={`${id}-${name}`} className="text-xs">
+        {label}
+      </Label>
+      <Input
+        id={`${id}-${name}`}
+        value={details[name]}
+        onChange={(e) => onChange({ ...details, [name]: e.target.value })}
+        onBlur={() => setTouched((prev) => ({ ...prev, [name]: true }))}
+        className={cn("mt-1 h-8", errorFor(name) && "border-red-500")}
+        {...props}
+      />
+      {errorFor(name) && (
+        <p className="text-xs text-red-500 mt-1">{errorFor(name)}</p>
+      )}
+    </div>
+  );
+
+  const daysLeft =
+    details.expiryDate && !errors.expiryDate ? daysUntilExpiry(details) : null;
+
+  return (
+    <div className="space-y-1">
+      <div className="grid gap-2 md:grid-cols-4">
+        {field(
+          "certificateNumber",
+          fsc ? "FSC certificate or licence code *" : "Certificate number *"
+        )}
+        {field("issuer", "Issued by")}
+        {field("issueDate", "Issue date", { type: "date" })}
+        {field("expiryDate", "Expiry date *", {
+          type: "date",
+          min: details.issueDate || undefined,
+        })}
+      </div>
+      {fsc && !errors.certificateNumber && (
+        <FscRegistryStatus
+          code={details.certificateNumber}
+          registry={fscRegistry}
+        />
+      )}
+      {daysLeft !== null && daysLeft < 0 && (
+        <p className="text-xs font-medium text-red-600">
+          Expired {-daysLeft} day{daysLeft === -1 ? "" : "s"} ago
+        </p>
+      )}
+      {daysLeft !== null && daysLeft >= 0 && daysLeft <= 90 && (
+        <p className="text-xs text-amber-700">
+          Expires in {daysLeft} day{daysLeft === 1 ? "" : "s"}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default CertificateFields;
@@ -0,0 +1,112 @@
+import React, { useState } from "react";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { Button } from "../ui/button";
+import { parseFscRegistry } from "../../lib/fsc";
+import {
+  FscRegistrySnapshot,
+  clearFscRegistry,
+  saveFscRegistry,
+} from "../../services/fscRegistryService";
+
+interface FscRegistryImportProps {
+  snapshot: FscRegistrySnapshot | null;
+  onChange: (snapshot: FscRegistrySnapshot | null) => void;
+}
+
+const FscRegistryImport: React.FC<FscRegistryImportProps> = ({
+  snapshot,
+  onChange,
+}) => {
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+  const [message, setMessage] = useState("");
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    setBusy(true);
+    setError("");
+    setMessage("");
+    try {
+      const { entries, skipped } = parseFscRegistry(await file.text());
+      if (entries.length === 0) {
+        setError("No certificates with a recognised status in that file");
+        return;
+      }
+      const next = {
+        fileName: file.name,
+        importedAt: new Date().toISOString(),
+        entries,
+      };
+      await saveFscRegistry(next);
+      onChange(next);
+      setMessage(
+        `Imported ${entries.length} certificates` +
+          (skipped > 0
+            ? `; ${skipped} rows without a code or status skipped`
+            : "")
+      );
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to import the registry"
+      );
+      console.error(err);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleClear = async () => {
+    setBusy(true);
+    setError("");
+    setMessage("");
+    try {
+      await clearFscRegistry();
+      onChange(null);
+    } catch (err) {
+      setError("Failed to remove the registry snapshot");
+      console.error(err);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-gray-600">
+        {snapshot
+          ? `${snapshot.entries.length} certificates from ${
+              snapshot.fileName
+            }, imported ${new Date(snapshot.importedAt).toLocaleString()}.`
+          : "No snapshot imported; FSC codes are only checked for their format."}
+      </p>
+      <div className="flex flex-wrap items-end gap-2">
+        <div>
+          <Label htmlFor="fsc-registry-file" className="text-sm">
+            CSV export of the FSC certificate database
+          </Label>
+          <Input
+            id="fsc-registry-file"
+            type="file"
+            accept=".csv,text/csv"
+            onChange={handleFile}
+            disabled={busy}
+            className="mt-1 cursor-pointer"
+          />
+        </div>
+        {snapshot && (
+          <Button variant="outline" onClick={handleClear} disabled={busy}>
+            Remove snapshot
+          </Button>
+        )}
+      </div>
+      {busy && <p className="text-sm text-gray-500">Working...</p>}
+      {message && <p className="text-sm text-green-700">{message}</p>}
+      {error && <p className="text-sm text-red-500">{error}</p>}
+    </div>
+  );
+};
+
+export default FscRegistryImport;
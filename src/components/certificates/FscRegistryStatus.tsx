@@ -0,0 +1,57 @@
+import React from "react";
+import { cn } from "../../lib/utils";
+import {
+  FscRegistryIndex,
+  fscStatusLabels,
+  fscStatusStyles,
+  lookupFscCode,
+} from "../../lib/fsc";
+
+interface FscRegistryStatusProps {
+  code: string;
+  // Not yet loaded, or no snapshot has been imported
+  registry: FscRegistryIndex | null;
+  className?: string;
+}
+
+// The code's status and scope in the imported FSC registry snapshot
+const FscRegistryStatus: React.FC<FscRegistryStatusProps> = ({
+  code,
+  registry,
+  className,
+}) => {
+  if (!registry || !code.trim()) return null;
+  const entry = lookupFscCode(registry, code);
+  if (!entry) {
+    return (
+      <p className={cn("text-xs text-amber-700", className)}>
+        Not found in the FSC registry snapshot
+      </p>
+    );
+  }
+  return (
+    <div
+      className={cn(
+        "flex flex-wrap items-center gap-2 text-xs text-gray-600",
+        className
+      )}
+    >
+      <span
+        className={cn(
+          "inline-flex items-center rounded-full px-2 py-0.5 font-medium",
+          fscStatusStyles[entry.status]
+        )}
+      >
+        FSC {fscStatusLabels[entry.status]}
+      </span>
+      <span>
+        {entry.certificateCode}
+        {entry.licenseCode && ` / ${entry.licenseCode}`}
+        {entry.holder && `, ${entry.holder}`}
+        {entry.scope && ` (${entry.scope})`}
+      </span>
+    </div>
+  );
+};
+
+export default FscRegistryStatus;
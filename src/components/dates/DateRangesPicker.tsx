@@ -0,0 +1,176 @@
+import React, { useEffect, useState } from "react";
+import { AlertTriangle, Plus, X } from "lucide-react";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { Button } from "../ui/button";
+import {
+  DateRange,
+  checkDateRange,
+  formatDateRange,
+  rangesAfterCutoff,
+  todayIsoDate,
+} from "../../lib/dateRanges";
+import { cn } from "../../lib/utils";
+
+interface DateRangesPickerProps {
+  id: string;
+  // ISO 8601 dates and intervals separated by "; ", e.g.
+  // "2023-04-01/2023-06-30; 2023-09-01"
+  value: string | null;
+  onChange: (value: string) => void;
+  onBlur?: () => void;
+  invalid?: boolean;
+}
+
+const emptyRange = (): DateRange => ({ start: "", end: "" });
+
+// Lenient split so half-entered rows survive a round trip through the value
+const toRows = (value: string | null): DateRange[] => {
+  const rows = (value || "")
+    .split(/[;\n]/)
+    .map((part) => part.trim())
+    .filter((part) => part.length > 0)
+    .map((part) => {
+      const [start = "", end] = part
+        .split(/\s*(?:\/|\bto\b)\s*/i)
+        .map((date) => date.trim());
+      return { start, end: end === undefined ? start : end };
+    });
+  return rows.length > 0 ? rows : [emptyRange()];
+};
+
+const toValue = (rows: DateRange[]): string =>
+  rows
+    .filter((row) => row.start || row.end)
+    .map((row) =>
+      row.start && row.end ? formatDateRange(row) : `${row.start}/${row.end}`
+    )
+    .join("; ");
+
+const rowError = (row: DateRange, today: string): string | null => {
+  if (!row.start && !row.end) return null;
+  if (!row.start) return "Enter the start date";
+  if (!row.end) return "Enter the end date";
+  return checkDateRange(row, today);
+};
+
+const DateRangesPicker: React.FC<DateRangesPickerProps> = ({
+  id,
+  value,
+  onChange,
+  onBlur,
+  invalid,
+}) => {
+  const [rows, setRows] = useState<DateRange[]>(() => toRows(value));
+  const today = todayIsoDate();
+
+  // Follow the value when it changes from outside, e.g. when a draft is loaded
+  useEffect(() => {
+    setRows((current) =>
+      toValue(current) === (value || "") ? current : toRows(value)
+    );
+  }, [value]);
+
+  const update = (next: DateRange[]) => {
+    setRows(next);
+    onChange(toValue(next));
+  };
+
+  const setDate = (index: number, field: keyof DateRange, date: string) =>
+    update(
+      rows.map((row, i) => {
+        if (i !== index) return row;
+        const changed = { ...row, [field]: date };
+        // A new start date also fills an empty end, for single-day harvests
+        if (field === "start" && !row.end) changed.end = date;
+        return changed;
+      })
+    );
+
+  const afterCutoff =
+    rangesAfterCutoff(
+      rows.filter((row) => row.start && row.end && !rowError(row, today))
+    ).length > 0;
+
+  return (
+    <div className="space-y-3">
+      <ul className="grid gap-2">
+        {rows.map((row, index) => {
+          const error = rowError(row, today);
+          return (
+            <li key={index}>
+              <div className="flex flex-wrap items-end gap-2">
+                <div>
+                  <Label htmlFor={`${id}-${index}-start`} className="text-sm">
+                    From
+                  </Label>
+                  <Input
+                    id={`${id}-${index}-start`}
+                    type="date"
+                    value={row.start}
+                    max={row.end || today}
+                    onChange={(e) => setDate(index, "start", e.target.value)}
+                    onBlur={onBlur}
+                    className={cn(
+                      "mt-1",
+                      (error || (invalid && !row.start)) && "border-red-500"
+                    )}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor={`${id}-${index}-end`} className="text-sm">
+                    To
+                  </Label>
+                  <Input
+                    id={`${id}-${index}-end`}
+                    type="date"
+                    value={row.end}
+                    min={row.start}
+                    max={today}
+                    onChange={(e) => setDate(index, "end", e.target.value)}
+                    onBlur={onBlur}
+                    className={cn(
+                      "mt-1",
+                      (error || (invalid && !row.end)) && "border-red-500"
+                    )}
+                  />
+                </div>
+                {rows.length > 1 && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => update(rows.filter((_, i) => i !== index))}
+                    aria-label="Remove date range"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+              {error && <p className="text-sm text-red-500 mt-1">{error}</p>}
+            </li>
+          );
+        })}
+      </ul>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => setRows([...rows, emptyRange()])}
+      >
+        <Plus className="h-4 w-4 mr-2" />
+        Add date range
+      </Button>
+      {afterCutoff && (
+        <div className="flex items-start gap-2 rounded-md bg-amber-50 p-2 text-sm text-amber-800">
+          <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+          <span>
+            Harvested after the EUDR cutoff of 31 December 2020. The plots must
+            not have been deforested or degraded since then; keep satellite
+            imagery or audit evidence ready.
+          </span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DateRangesPicker;
@@ -0,0 +1,75 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Columns } from "lucide-react";
+import { Button } from "../ui/button";
+import { ColumnKey, tableColumns } from "../../lib/submissionTable";
+
+interface ColumnChooserProps {
+  selected: ColumnKey[];
+  onChange: (columns: ColumnKey[]) => void;
+}
+
+const ColumnChooser: React.FC<ColumnChooserProps> = ({
+  selected,
+  onChange,
+}) => {
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere else on the page
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    window.addEventListener("mousedown", handleClick);
+    return () => window.removeEventListener("mousedown", handleClick);
+  }, [open]);
+
+  // Keep the table's column order regardless of the order columns were ticked
+  const toggle = (key: ColumnKey) =>
+    onChange(
+      tableColumns
+        .map((column) => column.key)
+        .filter((columnKey) =>
+          columnKey === key
+            ? !selected.includes(key)
+            : selected.includes(columnKey)
+        )
+    );
+
+  return (
+    <div ref={containerRef} className="relative">
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => setOpen((current) => !current)}
+        aria-expanded={open}
+      >
+        <Columns className="h-4 w-4 mr-2" />
+        Columns
+      </Button>
+      {open && (
+        <div className="absolute right-0 z-20 mt-2 w-80 max-h-96 overflow-auto rounded-md border bg-white p-3 shadow-lg">
+          {tableColumns.map((column) => (
+            <label
+              key={column.key}
+              className="flex items-center gap-2 py-1 text-sm"
+            >
+              <input
+                type="checkbox"
+                checked={selected.includes(column.key)}
+                onChange={() => toggle(column.key)}
+                disabled={
+                  selected.length === 1 && selected.includes(column.key)
+                }
+              />
+              {column.label}
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ColumnChooser;
@@ -0,0 +1,96 @@
+import React, { useMemo, useState } from "react";
+import { Button } from "../ui/button";
+import { Label } from "../ui/label";
+import { Select } from "../ui/select";
+import {
+  buildDds,
+  ddsToXml,
+  guessHsHeading,
+  pulpHsHeadings,
+} from "../../lib/dds";
+import { downloadBlob } from "../../lib/download";
+import { Document } from "../../types/submission";
+
+interface DdsExportProps {
+  document: Document;
+}
+
+const DdsExport: React.FC<DdsExportProps> = ({ document }) => {
+  const [hsHeading, setHsHeading] = useState(() =>
+    guessHsHeading(document.tradeName)
+  );
+  const { request, errors } = useMemo(
+    () => buildDds(document, hsHeading),
+    [document, hsHeading]
+  );
+
+  const fileName = `dds_${document._id}`;
+
+  const handleDownloadJson = () => {
+    if (!request) return;
+    downloadBlob(
+      new Blob([JSON.stringify(request, null, 2)], {
+        type: "application/json",
+      }),
+      `${fileName}.json`
+    );
+  };
+
+  const handleDownloadXml = () => {
+    if (!request) return;
+    downloadBlob(
+      new Blob([ddsToXml(request)], { type: "application/xml" }),
+      `${fileName}.xml`
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        Generates the Due Diligence Statement for the EU Information System from
+        this submission's details.
+      </p>
+      <div className="space-y-2 max-w-md">
+        <Label htmlFor="hsHeading">HS heading</Label>
+        <Select
+          id="hsHeading"
+          value={hsHeading}
+          onChange={(e) => setHsHeading(e.target.value)}
+        >
+          <option value="">Select the HS heading</option>
+          {Object.entries(pulpHsHeadings).map(([code, description]) => (
+            <option key={code} value={code}>
+              {code} – {description}
+            </option>
+          ))}
+        </Select>
+      </div>
+      {errors.length > 0 && (
+        <div className="bg-red-50 text-red-600 p-4 rounded-md text-sm">
+          <p className="font-medium mb-2">
+            Fix these items before the statement can be generated:
+          </p>
+          <ul className="list-disc pl-5 space-y-1">
+            {errors.map((message) => (
+              <li key={message}>{message}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+      <div className="flex gap-2">
+        <Button onClick={handleDownloadJson} disabled={!request}>
+          Download JSON
+        </Button>
+        <Button
+          variant="outline"
+          onClick={handleDownloadXml}
+          disabled={!request}
+        >
+          Download XML
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default DdsExport;
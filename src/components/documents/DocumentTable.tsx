@@ -0,0 +1,115 @@
+import React from "react";
+import { Link } from "react-router-dom";
+import { ArrowDown, ArrowUp, Copy } from "lucide-react";
+import StatusBadge from "./StatusBadge";
+import { Button } from "../ui/button";
+import { DocumentSortField } from "../../services/api";
+import { getStatus } from "../../lib/status";
+import { TableColumn } from "../../lib/submissionTable";
+import { cn } from "../../lib/utils";
+import { Document } from "../../types/submission";
+
+interface DocumentTableProps {
+  documents: Document[];
+  columns: TableColumn[];
+  sort?: DocumentSortField;
+  order?: "asc" | "desc";
+  onSort: (field: DocumentSortField) => void;
+  onDuplicate?: (document: Document) => void;
+}
+
+const DocumentTable: React.FC<DocumentTableProps> = ({
+  documents,
+  columns,
+  sort,
+  order,
+  onSort,
+  onDuplicate,
+}) => (
+  <div className="overflow-x-auto rounded-md border bg-white shadow-md">
+    <table className="min-w-full text-sm">
+      <thead className="bg-gray-50 text-left">
+        <tr>
+          {columns.map((column) => (
+            <th
+              key={column.key}
+              className="whitespace-nowrap px-4 py-3 font-medium text-gray-700"
+              aria-sort={
+                column.sortField && column.sortField === sort
+                  ? order === "asc"
+                    ? "ascending"
+                    : "descending"
+                  : undefined
+              }
+            >
+              {column.sortField ? (
+                <button
+                  type="button"
+                  className="inline-flex items-center gap-1 hover:text-indigo-600"
+                  onClick={() => column.sortField && onSort(column.sortField)}
+                >
+                  {column.label}
+                  {column.sortField === sort &&
+                    (order === "asc" ? (
+                      <ArrowUp className="h-3 w-3" />
+                    ) : (
+                      <ArrowDown className="h-3 w-3" />
+                    ))}
+                </button>
+              ) : (
+                column.label
+              )}
+            </th>
+          ))}
+          {onDuplicate && (
+            <th className="px-4 py-3">
+              <span className="sr-only">Actions</span>
+            </th>
+          )}
+        </tr>
+      </thead>
+      <tbody>
+        {documents.map((document) => (
+          <tr key={document._id} className="border-t hover:bg-gray-50">
+            {columns.map((column, index) => (
+              <td
+                key={column.key}
+                className={cn(
+                  "px-4 py-2 align-top",
+                  column.key === "quantity" && "text-right"
+                )}
+              >
+                {column.key === "status" ? (
+                  <StatusBadge status={getStatus(document.status)} />
+                ) : index === 0 ? (
+                  <Link
+                    to={`/documents/${document._id}`}
+                    className="text-indigo-600 hover:text-indigo-500"
+                  >
+                    {column.value(document) || "Untitled"}
+                  </Link>
+                ) : (
+                  <span className="line-clamp-2">{column.value(document)}</span>
+                )}
+              </td>
+            ))}
+            {onDuplicate && (
+              <td className="px-4 py-2 align-top text-right">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onDuplicate(document)}
+                >
+                  <Copy className="h-4 w-4 mr-2" />
+                  Duplicate
+                </Button>
+              </td>
+            )}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+export default DocumentTable;
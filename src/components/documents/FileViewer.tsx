@@ -0,0 +1,251 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Loader2, X, ZoomIn, ZoomOut } from "lucide-react";
+import { Button } from "../ui/button";
+import { downloadBlob } from "../../lib/download";
+import {
+  FileKind,
+  isImageKind,
+  sniffFileKind,
+  withExtension,
+} from "../../lib/fileType";
+import {
+  PDFDocumentProxy,
+  RenderTask,
+  isPasswordError,
+  loadPdf,
+} from "../../lib/pdf";
+
+interface FileViewerProps {
+  file: Blob | null;
+  fileName: string;
+  onClose: () => void;
+}
+
+const ZOOM_STEP = 0.25;
+const MIN_ZOOM = 0.5;
+const MAX_ZOOM = 3;
+
+const PdfPages: React.FC<{ file: Blob; zoom: number }> = ({ file, zoom }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [page, setPage] = useState(1);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    let loaded: PDFDocumentProxy | null = null;
+    let cancelled = false;
+    setPdf(null);
+    setPage(1);
+    setError("");
+
+    loadPdf(file)
+      .then((doc) => {
+        loaded = doc;
+        if (!cancelled) setPdf(doc);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setError(
+          isPasswordError(err)
+            ? "This PDF is password protected and cannot be previewed."
+            : "This PDF could not be opened."
+        );
+      });
+
+    return () => {
+      cancelled = true;
+      loaded?.destroy();
+    };
+  }, [file]);
+
+  useEffect(() => {
+    if (!pdf || !canvasRef.current) return;
+    const canvas = canvasRef.current;
+    let renderTask: RenderTask | null = null;
+
+    pdf.getPage(page).then((pdfPage) => {
+      const viewport = pdfPage.getViewport({ scale: zoom * 1.5 });
+      const context = canvas.getContext("2d");
+      if (!context) return;
+      canvas.width = viewport.width;
+      canvas.height = viewport.height;
+      renderTask = pdfPage.render({ canvasContext: context, viewport });
+      renderTask.promise.catch(() => undefined);
+    });
+
+    return () => renderTask?.cancel();
+  }, [pdf, page, zoom]);
+
+  if (error) return <p className="text-sm text-red-500">{error}</p>;
+  if (!pdf) {
+    return <Loader2 className="h-8 w-8 animate-spin text-indigo-600" />;
+  }
+
+  return (
+    <div className="flex flex-col items-center gap-3">
+      <div className="flex items-center gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setPage((current) => Math.max(1, current - 1))}
+          disabled={page <= 1}
+        >
+          Previous
+        </Button>
+        <span className="text-sm text-gray-600">
+          Page {page} of {pdf.numPages}
+        </span>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() =>
+            setPage((current) => Math.min(pdf.numPages, current + 1))
+          }
+          disabled={page >= pdf.numPages}
+        >
+          Next
+        </Button>
+      </div>
+      <canvas ref={canvasRef} className="max-w-none shadow" />
+    </div>
+  );
+};
+
+const FileViewer: React.FC<FileViewerProps> = ({ file, fileName, onClose }) => {
+  const [kind, setKind] = useState<FileKind | null>(null);
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [zoom, setZoom] = useState(1);
+
+  useEffect(() => {
+    if (!file) return;
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    setKind(null);
+    setZoom(1);
+
+    sniffFileKind(file)
+      .then((detected) => {
+        if (cancelled) return;
+        if (isImageKind(detected)) {
+          objectUrl = URL.createObjectURL(file);
+          setImageUrl(objectUrl);
+        }
+        setKind(detected);
+      })
+      .catch((err) => {
+        console.error("Error reading file:", err);
+        // Offer the download instead of a preview
+        if (!cancelled) setKind("unknown");
+      });
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+      setImageUrl(null);
+    };
+  }, [file]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  if (!file) return null;
+
+  const handleDownload = () =>
+    downloadBlob(file, kind ? withExtension(fileName, kind) : fileName);
+
+  const zoomable = kind === "pdf" || (kind !== null && isImageKind(kind));
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label={fileName}
+        className="flex max-h-full w-full max-w-5xl flex-col rounded-lg bg-white shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between gap-4 border-b p-4">
+          <h2 className="truncate text-lg font-medium">{fileName}</h2>
+          <div className="flex items-center gap-2">
+            {zoomable && (
+              <>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={() =>
+                    setZoom((current) =>
+                      Math.max(MIN_ZOOM, current - ZOOM_STEP)
+                    )
+                  }
+                  disabled={zoom <= MIN_ZOOM}
+                  aria-label="Zoom out"
+                >
+                  <ZoomOut className="h-4 w-4" />
+                </Button>
+                <span className="w-12 text-center text-sm text-gray-600">
+                  {Math.round(zoom * 100)}%
+                </span>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={() =>
+                    setZoom((current) =>
+                      Math.min(MAX_ZOOM, current + ZOOM_STEP)
+                    )
+                  }
+                  disabled={zoom >= MAX_ZOOM}
+                  aria-label="Zoom in"
+                >
+                  <ZoomIn className="h-4 w-4" />
+                </Button>
+              </>
+            )}
+            <Button variant="outline" size="sm" onClick={handleDownload}>
+              Download
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={onClose}
+              aria-label="Close"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+        <div className="flex flex-1 justify-center overflow-auto bg-gray-100 p-4">
+          {kind === null && (
+            <Loader2 className="h-8 w-8 animate-spin text-indigo-600" />
+          )}
+          {kind === "pdf" && <PdfPages file={file} zoom={zoom} />}
+          {kind !== null && isImageKind(kind) && imageUrl && (
+            <img
+              src={imageUrl}
+              alt={fileName}
+              style={{ width: `${zoom * 100}%` }}
+              className="h-auto max-w-none object-contain"
+            />
+          )}
+          {(kind === "doc" || kind === "docx" || kind === "unknown") && (
+            <div className="space-y-4 py-12 text-center">
+              <p className="text-gray-600">
+                This file type can't be previewed in the browser.
+              </p>
+              <Button onClick={handleDownload}>Download to open</Button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FileViewer;
@@ -0,0 +1,63 @@
+import React from "react";
+import { cn } from "../../lib/utils";
+import {
+  RiskAssessment,
+  severityLabels,
+  severityStyles,
+} from "../../lib/riskAssessment";
+
+interface RiskAssessmentPanelProps {
+  assessment: RiskAssessment;
+}
+
+const RiskAssessmentPanel: React.FC<RiskAssessmentPanelProps> = ({
+  assessment,
+}) => (
+  <div className="space-y-4">
+    <div className="flex items-center gap-4">
+      <div className="text-3xl font-semibold">{assessment.score}</div>
+      <div>
+        <span
+          className={cn(
+            "inline-flex items-center rounded-full px-3 py-1 text-xs font-medium",
+            severityStyles[assessment.level]
+          )}
+        >
+          {severityLabels[assessment.level]} risk
+        </span>
+        <p className="text-xs text-gray-500 mt-1">
+          Score out of 100, rules version {assessment.rulesVersion}
+        </p>
+      </div>
+    </div>
+    {assessment.findings.length === 0 ? (
+      <p className="text-sm text-green-700">No risk findings.</p>
+    ) : (
+      <ul className="grid gap-3">
+        {assessment.findings.map((finding) => (
+          <li key={finding.ruleId} className="flex items-start gap-3 text-sm">
+            <span
+              className={cn(
+                "inline-flex shrink-0 items-center rounded-full px-2 py-0.5 text-xs font-medium",
+                severityStyles[finding.severity]
+              )}
+            >
+              {severityLabels[finding.severity]}
+            </span>
+            <div>
+              <p className="font-medium">
+                {finding.title}{" "}
+                <span className="font-normal text-gray-500">
+                  (+{finding.score})
+                </span>
+              </p>
+              <p className="text-gray-600">{finding.description}</p>
+            </div>
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+export default RiskAssessmentPanel;
@@ -0,0 +1,23 @@
+import React from "react";
+import { cn } from "../../lib/utils";
+import { statusLabels, statusStyles } from "../../lib/status";
+import { SubmissionStatus } from "../../types/submission";
+
+interface StatusBadgeProps {
+  status: SubmissionStatus;
+  className?: string;
+}
+
+const StatusBadge: React.FC<StatusBadgeProps> = ({ status, className }) => (
+  <span
+    className={cn(
+      "inline-flex items-center rounded-full px-3 py-1 text-xs font-medium",
+      statusStyles[status],
+      className
+    )}
+  >
+    {statusLabels[status]}
+  </span>
+);
+
+export default StatusBadge;
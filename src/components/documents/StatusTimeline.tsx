@@ -0,0 +1,50 @@
+import React from "react";
+import StatusBadge from "./StatusBadge";
+import { statusDescriptions } from "../../lib/status";
+import { StatusHistoryEntry } from "../../types/submission";
+
+interface StatusTimelineProps {
+  history: StatusHistoryEntry[];
+}
+
+const StatusTimeline: React.FC<StatusTimelineProps> = ({ history }) => {
+  if (history.length === 0) {
+    return <p className="text-sm text-gray-500">No status changes yet.</p>;
+  }
+
+  // Newest first
+  const entries = [...history].sort((a, b) =>
+    b.changedAt.localeCompare(a.changedAt)
+  );
+
+  return (
+    <ol className="relative border-l border-gray-200 ml-2">
+      {entries.map((entry, index) => (
+        <li key={`${entry.changedAt}-${index}`} className="mb-6 ml-6">
+          <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white bg-gray-300" />
+          <div className="flex flex-wrap items-center gap-2">
+            <StatusBadge status={entry.status} />
+            <time className="text-sm text-gray-500">
+              {new Date(entry.changedAt).toLocaleString()}
+            </time>
+            {entry.changedBy && (
+              <span className="text-sm text-gray-500">
+                by {entry.changedBy}
+              </span>
+            )}
+          </div>
+          <p className="mt-1 text-sm text-gray-600">
+            {statusDescriptions[entry.status]}
+          </p>
+          {entry.comment && (
+            <p className="mt-2 rounded-md bg-gray-50 p-3 text-sm">
+              {entry.comment}
+            </p>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default StatusTimeline;
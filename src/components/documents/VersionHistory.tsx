@@ -0,0 +1,152 @@
+import React, { useState } from "react";
+import { Button } from "../ui/button";
+import {
+  FileChange,
+  diffVersions,
+  fileChangeLabels,
+  fileChangeStyles,
+} from "../../lib/versions";
+import { cn } from "../../lib/utils";
+import { DocumentVersion } from "../../types/submission";
+
+interface VersionHistoryProps {
+  versions: DocumentVersion[];
+}
+
+const fileCount = (count: number) => `${count} file${count === 1 ? "" : "s"}`;
+
+const describeFileChange = ({ kind, added, removed }: FileChange) => {
+  if (kind === "added") return `${fileCount(added)} added`;
+  if (kind === "removed") return `${fileCount(removed)} removed`;
+  return added === removed
+    ? `${fileCount(added)} replaced`
+    : `${fileCount(removed)} removed, ${fileCount(added)} added`;
+};
+
+const VersionHistory: React.FC<VersionHistoryProps> = ({ versions }) => {
+  const [open, setOpen] = useState<number | null>(null);
+
+  if (versions.length <= 1) {
+    return (
+      <p className="text-sm text-gray-500">
+        Not amended since it was submitted.
+      </p>
+    );
+  }
+
+  // Compared with the version before, newest first
+  const entries = [...versions]
+    .sort((a, b) => a.version - b.version)
+    .map((version, index, sorted) => ({
+      version,
+      previous: index > 0 ? sorted[index - 1] : null,
+    }))
+    .reverse();
+
+  return (
+    <ol className="relative border-l border-gray-200 ml-2">
+      {entries.map(({ version, previous }) => {
+        const diff = previous
+          ? diffVersions(previous.document, version.document)
+          : null;
+        const changeCount = diff ? diff.fields.length + diff.files.length : 0;
+        return (
+          <li key={version.version} className="mb-6 ml-6">
+            <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white bg-gray-300" />
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="font-medium">Version {version.version}</span>
+              <time className="text-sm text-gray-500">
+                {new Date(version.createdAt).toLocaleString()}
+              </time>
+              {version.createdBy && (
+                <span className="text-sm text-gray-500">
+                  by {version.createdBy}
+                </span>
+              )}
+            </div>
+            {version.comment && (
+              <p className="mt-2 rounded-md bg-gray-50 p-3 text-sm">
+                {version.comment}
+              </p>
+            )}
+            {diff ? (
+              <>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="mt-1 px-0"
+                  onClick={() =>
+                    setOpen(open === version.version ? null : version.version)
+                  }
+                  disabled={changeCount === 0}
+                >
+                  {changeCount === 0
+                    ? "No changes"
+                    : open === version.version
+                    ? "Hide changes"
+                    : `Show ${changeCount} change${
+                        changeCount === 1 ? "" : "s"
+                      }`}
+                </Button>
+                {open === version.version && (
+                  <div className="mt-2 space-y-3 text-sm">
+                    {diff.fields.length > 0 && (
+                      <table className="w-full">
+                        <thead className="text-left text-gray-500">
+                          <tr>
+                            <th className="py-1 pr-4 font-medium">Field</th>
+                            <th className="py-1 pr-4 font-medium">Before</th>
+                            <th className="py-1 font-medium">After</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {diff.fields.map((change) => (
+                            <tr key={change.key} className="border-t align-top">
+                              <td className="py-1 pr-4 font-medium">
+                                {change.label}
+                              </td>
+                              <td className="py-1 pr-4 text-red-700 line-through">
+                                {change.before}
+                              </td>
+                              <td className="py-1 text-green-700">
+                                {change.after}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                    {diff.files.length > 0 && (
+                      <ul className="grid gap-1">
+                        {diff.files.map((change) => (
+                          <li
+                            key={change.category}
+                            className="flex items-center gap-2"
+                          >
+                            <span
+                              className={cn(
+                                "rounded-full px-2 py-0.5 text-xs font-medium",
+                                fileChangeStyles[change.kind]
+                              )}
+                            >
+                              {fileChangeLabels[change.kind]}
+                            </span>
+                            {change.label} ({describeFileChange(change)})
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
+              </>
+            ) : (
+              <p className="mt-1 text-sm text-gray-600">Original submission</p>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+export default VersionHistory;
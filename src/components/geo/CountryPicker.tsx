@@ -0,0 +1,139 @@
+import React, { useState } from "react";
+import { Input } from "../ui/input";
+import { countries, findCountry } from "../../lib/countries";
+import { cn } from "../../lib/utils";
+
+interface CountryPickerProps {
+  id: string;
+  // ISO 3166-1 alpha-2 code, or "" when nothing is picked
+  value: string;
+  onChange: (code: string) => void;
+  onBlur?: () => void;
+  invalid?: boolean;
+}
+
+const MAX_RESULTS = 50;
+
+const CountryPicker: React.FC<CountryPickerProps> = ({
+  id,
+  value,
+  onChange,
+  onBlur,
+  invalid,
+}) => {
+  const [query, setQuery] = useState("");
+  const [open, setOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const selected = findCountry(value);
+  const search = query.trim().toLowerCase();
+  // An exact code match comes first, so typing "ID" puts Indonesia on top
+  const results = countries
+    .filter(
+      (country) =>
+        !search ||
+        country.code.toLowerCase() === search ||
+        country.name.toLowerCase().includes(search)
+    )
+    .sort(
+      (a, b) =>
+        Number(b.code.toLowerCase() === search) -
+        Number(a.code.toLowerCase() === search)
+    )
+    .slice(0, MAX_RESULTS);
+
+  const pick = (code: string) => {
+    onChange(code);
+    setQuery("");
+    setOpen(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      setOpen(true);
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setHighlighted((current) =>
+        Math.min(Math.max(current + step, 0), results.length - 1)
+      );
+    } else if (e.key === "Enter" && open && results[highlighted]) {
+      e.preventDefault();
+      pick(results[highlighted].code);
+    } else if (e.key === "Escape") {
+      setOpen(false);
+      setQuery("");
+    }
+  };
+
+  return (
+    <div className="relative">
+      <Input
+        id={id}
+        role="combobox"
+        aria-expanded={open}
+        aria-controls={`${id}-options`}
+        autoComplete="off"
+        value={
+          open
+            ? query
+            : selected
+            ? `${selected.name} (${selected.code})`
+            : value
+        }
+        placeholder="Search by country name or code"
+        onFocus={() => {
+          setOpen(true);
+          setHighlighted(0);
+        }}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setHighlighted(0);
+          setOpen(true);
+        }}
+        onBlur={() => {
+          setOpen(false);
+          setQuery("");
+          onBlur?.();
+        }}
+        onKeyDown={handleKeyDown}
+        className={cn(invalid && "border-red-500")}
+      />
+      {open && (
+        <ul
+          id={`${id}-options`}
+          role="listbox"
+          className="absolute z-20 mt-1 max-h-64 w-full overflow-auto rounded-md border bg-white py-1 shadow-lg"
+        >
+          {results.length === 0 && (
+            <li className="px-3 py-2 text-sm text-gray-500">
+              No country matches "{query}"
+            </li>
+          )}
+          {results.map((country, index) => (
+            <li
+              key={country.code}
+              role="option"
+              aria-selected={country.code === selected?.code}
+              onMouseDown={(e) => {
+                // Keep focus in the input until the pick is made
+                e.preventDefault();
+                pick(country.code);
+              }}
+              onMouseEnter={() => setHighlighted(index)}
+              className={cn(
+                "flex cursor-pointer justify-between px-3 py-1.5 text-sm",
+                index === highlighted && "bg-gray-100",
+                country.code === selected?.code && "font-medium"
+              )}
+            >
+              <span>{country.name}</span>
+              <span className="text-gray-500">{country.code}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default CountryPicker;
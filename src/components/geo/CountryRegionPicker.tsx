@@ -0,0 +1,113 @@
+import React from "react";
+import { AlertTriangle } from "lucide-react";
+import { Select } from "../ui/select";
+import CountryPicker from "./CountryPicker";
+import RiskTierBadge from "./RiskTierBadge";
+import {
+  findCountry,
+  findSubdivision,
+  formatCountryRegion,
+  parseCountryRegion,
+} from "../../lib/countries";
+import { riskTierFor, riskTierNotes } from "../../lib/countryRisk";
+
+interface CountryRegionPickerProps {
+  id: string;
+  // Stored as "ID" or "ID-RI"; older submissions may hold free text
+  value: string | null;
+  onChange: (value: string) => void;
+  onBlur?: () => void;
+  invalid?: boolean;
+}
+
+const CountryRegionPicker: React.FC<CountryRegionPickerProps> = ({
+  id,
+  value,
+  onChange,
+  onBlur,
+  invalid,
+}) => {
+  const parsed = parseCountryRegion(value || "");
+  const country = parsed ? findCountry(parsed.country) : undefined;
+  const subdivision = parsed
+    ? findSubdivision(parsed.country, parsed.region)
+    : undefined;
+  // A legacy region that matches no subdivision stays selectable as entered
+  const unmatchedRegion = parsed?.region && !subdivision ? parsed.region : "";
+  const tier = parsed ? riskTierFor(parsed.country) : null;
+
+  const handleRegionChange = (index: string) => {
+    if (!country) return;
+    onChange(
+      formatCountryRegion(
+        country.code,
+        index === "" ? undefined : country.subdivisions[Number(index)]
+      )
+    );
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="grid gap-2 md:grid-cols-2">
+        <CountryPicker
+          id={id}
+          value={parsed?.country || ""}
+          onChange={(code) => onChange(formatCountryRegion(code))}
+          onBlur={onBlur}
+          invalid={invalid}
+        />
+        <Select
+          id={`${id}-region`}
+          aria-label="Region"
+          value={
+            subdivision
+              ? String(country?.subdivisions.indexOf(subdivision))
+              : unmatchedRegion
+              ? "unmatched"
+              : ""
+          }
+          onChange={(e) => handleRegionChange(e.target.value)}
+          onBlur={onBlur}
+          disabled={!country || country.subdivisions.length === 0}
+        >
+          <option value="">
+            {country && country.subdivisions.length === 0
+              ? "No regions listed"
+              : "Whole country / region unknown"}
+          </option>
+          {unmatchedRegion && (
+            <option value="unmatched" disabled>
+              {unmatchedRegion} (as entered)
+            </option>
+          )}
+          {country?.subdivisions.map((item, index) => (
+            <option key={`${item.code}-${item.name}`} value={index}>
+              {item.name}
+              {item.code && ` (${item.code})`}
+            </option>
+          ))}
+        </Select>
+      </div>
+      {value && !parsed && (
+        <p className="text-sm text-amber-700">
+          Previously entered as "{value}". Pick the country from the list.
+        </p>
+      )}
+      {tier && (
+        <div
+          className={
+            tier === "high"
+              ? "flex items-start gap-2 rounded-md bg-red-50 p-2 text-sm text-red-700"
+              : "flex items-center gap-2 text-sm text-gray-600"
+          }
+        >
+          {tier === "high" && <AlertTriangle className="h-4 w-4 mt-0.5" />}
+          <RiskTierBadge tier={tier} />
+          <span>{riskTierNotes[tier]}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CountryRegionPicker;
@@ -0,0 +1,79 @@
+import React, { useMemo, ChangeEvent } from "react";
+import { Textarea } from "../ui/textarea";
+import {
+  Geometry,
+  GeoInputFormat,
+  parseGeolocation,
+  describeGeometry,
+} from "../../lib/geo";
+
+interface GeolocationInputProps {
+  // Raw text as typed; kept by the parent so it survives tab switches
+  value: string;
+  onChange: (text: string, geometry: Geometry | null, errors: string[]) => void;
+}
+
+const formatLabels: Record<GeoInputFormat, string> = {
+  geojson: "GeoJSON",
+  wkt: "WKT",
+  latlon: "Lat/lon list",
+};
+
+const GeolocationInput: React.FC<GeolocationInputProps> = ({
+  value,
+  onChange,
+}) => {
+  const result = useMemo(
+    () => (value.trim() ? parseGeolocation(value) : null),
+    [value]
+  );
+
+  const handleChange = (e: ChangeEvent<HTMLTextAreaElement>) => {
+    const text = e.target.value;
+    if (!text.trim()) {
+      onChange(text, null, []);
+      return;
+    }
+    const parsed = parseGeolocation(text);
+    onChange(text, parsed.geometry, parsed.errors);
+  };
+
+  const errors = result?.errors || [];
+
+  return (
+    <div className="space-y-2">
+      <Textarea
+        name="geolocationPolygon"
+        value={value}
+        onChange={handleChange}
+        placeholder={
+          'GeoJSON (Point, Polygon, MultiPolygon), WKT such as "POLYGON ((101.4 0.5, ...))", or one "lat, lon" pair per line'
+        }
+        className={`mt-2 font-mono ${
+          errors.length > 0 ? "border-red-500" : ""
+        }`}
+        rows={6}
+      />
+      {result?.format && (
+        <p className="text-xs text-gray-500">
+          Detected format: {formatLabels[result.format]}
+        </p>
+      )}
+      {errors.length > 0 ? (
+        <ul className="text-sm text-red-500 list-disc pl-5">
+          {errors.map((message) => (
+            <li key={message}>{message}</li>
+          ))}
+        </ul>
+      ) : (
+        result?.geometry && (
+          <p className="text-sm text-green-600">
+            Valid geometry: {describeGeometry(result.geometry)}
+          </p>
+        )
+      )}
+    </div>
+  );
+};
+
+export default GeolocationInput;
@@ -0,0 +1,581 @@
+import React, { useEffect, useRef, useState, PointerEvent } from "react";
+import { Button } from "../ui/button";
+import { cn } from "../../lib/utils";
+import {
+  Geometry,
+  GeoBounds,
+  Position,
+  geometryBounds,
+  geometryAreaHectares,
+  geometryCentroid,
+  getPolygons,
+} from "../../lib/geo";
+import worldLand from "../../data/worldLand.json";
+
+interface PlotMapProps {
+  geometry: Geometry | null;
+  // The map is editable only when a change handler is supplied
+  onChange?: (geometry: Geometry | null) => void;
+  height?: number;
+  thumbnail?: boolean;
+  className?: string;
+}
+
+interface MapView {
+  centerLon: number;
+  centerLat: number;
+  // Pixels per degree of latitude
+  scale: number;
+}
+
+interface VertexRef {
+  polygon: number;
+  ring: number;
+  vertex: number;
+}
+
+const WIDTH = 600;
+const THUMBNAIL_WIDTH = 160;
+const THUMBNAIL_HEIGHT = 120;
+const MIN_SPAN = 0.002;
+const GRID_STEPS = [
+  30, 10, 5, 2, 1, 0.5, 0.2, 0.1, 0.05, 0.02, 0.01, 0.005, 0.002, 0.001, 0.0005,
+  0.0002, 0.0001,
+];
+
+// Coastlines drawn under the plots; too coarse to place a plot, but enough
+// to see which country and coast it is near
+const LAND = worldLand.geometry.coordinates as Position[][][];
+
+const WORLD: GeoBounds = { minLon: -180, minLat: -60, maxLon: 180, maxLat: 75 };
+
+const lonFactor = (lat: number) => Math.cos((lat * Math.PI) / 180);
+
+const fitView = (bounds: GeoBounds, width: number, height: number): MapView => {
+  const centerLon = (bounds.minLon + bounds.maxLon) / 2;
+  const centerLat = (bounds.minLat + bounds.maxLat) / 2;
+  const lonSpan =
+    Math.max(bounds.maxLon - bounds.minLon, MIN_SPAN) * lonFactor(centerLat);
+  const latSpan = Math.max(bounds.maxLat - bounds.minLat, MIN_SPAN);
+  const scale = Math.min(width / lonSpan, height / latSpan) / 1.3;
+  return { centerLon, centerLat, scale };
+};
+
+const project = (
+  view: MapView,
+  width: number,
+  height: number,
+  [lon, lat]: Position
+): [number, number] => [
+  width / 2 + (lon - view.centerLon) * lonFactor(view.centerLat) * view.scale,
+  height / 2 - (lat - view.centerLat) * view.scale,
+];
+
+const unproject = (
+  view: MapView,
+  width: number,
+  height: number,
+  x: number,
+  y: number
+): Position => [
+  view.centerLon + (x - width / 2) / (lonFactor(view.centerLat) * view.scale),
+  view.centerLat - (y - height / 2) / view.scale,
+];
+
+const gridStep = (span: number) =>
+  GRID_STEPS.find((step) => span / step >= 3) ||
+  GRID_STEPS[GRID_STEPS.length - 1];
+
+const formatDegrees = (value: number, step: number) =>
+  value.toFixed(Math.max(0, Math.ceil(-Math.log10(step))));
+
+// Replaces one vertex, keeping the ring closed when the first vertex moves
+const moveVertex = (
+  rings: Position[][],
+  target: VertexRef,
+  position: Position
+): Position[][] =>
+  rings.map((ring, ringIndex) => {
+    if (ringIndex !== target.ring) return ring;
+    const last = ring.length - 1;
+    return ring.map((vertex, index) =>
+      index === target.vertex || (target.vertex === 0 && index === last)
+        ? position
+        : vertex
+    );
+  });
+
+const updatePolygons = (
+  geometry: Geometry,
+  update: (polygons: Position[][][]) => Position[][][]
+): Geometry | null => {
+  const polygons = update(getPolygons(geometry)).filter(
+    (rings) => rings.length > 0
+  );
+  if (polygons.length === 0) return null;
+  if (polygons.length === 1)
+    return { type: "Polygon", coordinates: polygons[0] };
+  return { type: "MultiPolygon", coordinates: polygons };
+};
+
+const PlotMap: React.FC<PlotMapProps> = ({
+  geometry,
+  onChange,
+  height = 360,
+  thumbnail = false,
+  className,
+}) => {
+  const width = thumbnail ? THUMBNAIL_WIDTH : WIDTH;
+  const mapHeight = thumbnail ? THUMBNAIL_HEIGHT : height;
+  const editable = Boolean(onChange) && !thumbnail;
+
+  const svgRef = useRef<SVGSVGElement>(null);
+  const lastEmitted = useRef<Geometry | null>(null);
+  const [view, setView] = useState<MapView>(() =>
+    fitView(geometry ? geometryBounds(geometry) : WORLD, width, mapHeight)
+  );
+  const [dragging, setDragging] = useState<VertexRef | "point" | null>(null);
+  const [panStart, setPanStart] = useState<{
+    x: number;
+    y: number;
+    view: MapView;
+  } | null>(null);
+  const [drawing, setDrawing] = useState<Position[] | null>(null);
+
+  // Refit whenever the geometry changes from outside the map (e.g. the text input)
+  useEffect(() => {
+    if (geometry === lastEmitted.current) return;
+    setView(
+      fitView(geometry ? geometryBounds(geometry) : WORLD, width, mapHeight)
+    );
+  }, [geometry, width, mapHeight]);
+
+  const emit = (next: Geometry | null) => {
+    lastEmitted.current = next;
+    onChange?.(next);
+  };
+
+  const toSvgPoint = (e: PointerEvent | React.MouseEvent) => {
+    const svg = svgRef.current;
+    const matrix = svg?.getScreenCTM();
+    if (!svg || !matrix) return { x: 0, y: 0 };
+    const point = svg.createSVGPoint();
+    point.x = e.clientX;
+    point.y = e.clientY;
+    const transformed = point.matrixTransform(matrix.inverse());
+    return { x: transformed.x, y: transformed.y };
+  };
+
+  const toPosition = (e: PointerEvent | React.MouseEvent): Position => {
+    const { x, y } = toSvgPoint(e);
+    const [lon, lat] = unproject(view, width, mapHeight, x, y);
+    return [Number(lon.toFixed(7)), Number(lat.toFixed(7))];
+  };
+
+  const handleBackgroundPointerDown = (e: PointerEvent<SVGRectElement>) => {
+    if (thumbnail) return;
+    if (drawing) {
+      setDrawing([...drawing, toPosition(e)]);
+      return;
+    }
+    setPanStart({ ...toSvgPoint(e), view });
+  };
+
+  const handlePointerMove = (e: PointerEvent<SVGSVGElement>) => {
+    if (dragging && geometry) {
+      const position = toPosition(e);
+      if (dragging === "point") {
+        emit({ type: "Point", coordinates: position });
+        return;
+      }
+      emit(
+        updatePolygons(geometry, (polygons) =>
+          polygons.map((rings, index) =>
+            index === dragging.polygon
+              ? moveVertex(rings, dragging, position)
+              : rings
+          )
+        )
+      );
+      return;
+    }
+    if (panStart) {
+      const { x, y } = toSvgPoint(e);
+      const { view: start } = panStart;
+      setView({
+        ...start,
+        centerLon:
+          start.centerLon -
+          (x - panStart.x) / (lonFactor(start.centerLat) * start.scale),
+        centerLat: start.centerLat + (y - panStart.y) / start.scale,
+      });
+    }
+  };
+
+  const handlePointerUp = () => {
+    setDragging(null);
+    setPanStart(null);
+  };
+
+  const removeVertex = (target: VertexRef) => {
+    if (!geometry) return;
+    emit(
+      updatePolygons(geometry, (polygons) =>
+        polygons.map((rings, polygonIndex) => {
+          if (polygonIndex !== target.polygon) return rings;
+          const ring = rings[target.ring];
+          // A ring needs three distinct vertices plus the closing one
+          if (ring.length <= 4) return rings;
+          const open = ring
+            .slice(0, -1)
+            .filter((_, index) => index !== target.vertex);
+          return rings.map((current, ringIndex) =>
+            ringIndex === target.ring ? [...open, open[0]] : current
+          );
+        })
+      )
+    );
+  };
+
+  const insertVertex = (target: VertexRef, position: Position) => {
+    if (!geometry) return;
+    emit(
+      updatePolygons(geometry, (polygons) =>
+        polygons.map((rings, polygonIndex) =>
+          polygonIndex !== target.polygon
+            ? rings
+            : rings.map((ring, ringIndex) =>
+                ringIndex === target.ring
+                  ? [
+                      ...ring.slice(0, target.vertex + 1),
+                      position,
+                      ...ring.slice(target.vertex + 1),
+                    ]
+                  : ring
+              )
+        )
+      )
+    );
+  };
+
+  const finishDrawing = () => {
+    if (!drawing || drawing.length < 3) return;
+    const ring = [...drawing, drawing[0]];
+    const existing =
+      geometry && geometry.type !== "Point" ? getPolygons(geometry) : [];
+    const polygons = [...existing, [ring]];
+    emit(
+      polygons.length === 1
+        ? { type: "Polygon", coordinates: polygons[0] }
+        : { type: "MultiPolygon", coordinates: polygons }
+    );
+    setDrawing(null);
+  };
+
+  // Never zoom out past roughly the whole globe
+  const zoom = (factor: number) =>
+    setView((current) => ({
+      ...current,
+      scale: Math.max(current.scale * factor, mapHeight / 180),
+    }));
+
+  const toPath = (ring: Position[]) =>
+    ring
+      .map((position, index) => {
+        const [x, y] = project(view, width, mapHeight, position);
+        return `${index === 0 ? "M" : "L"}${x.toFixed(1)},${y.toFixed(1)}`;
+      })
+      .join(" ") + " Z";
+
+  // Bundled outline standing in for a basemap so the map works offline
+  const renderLand = () => (
+    <path
+      d={LAND.map((rings) => rings.map(toPath).join(" ")).join(" ")}
+      fill="#e7efe3"
+      fillRule="evenodd"
+      stroke="#cbd5c0"
+      strokeWidth={0.5}
+      pointerEvents="none"
+    />
+  );
+
+  const renderGrid = () => {
+    const [west, north] = unproject(view, width, mapHeight, 0, 0);
+    const [east, south] = unproject(view, width, mapHeight, width, mapHeight);
+    const step = gridStep(Math.min(east - west, north - south));
+    const lines: React.ReactNode[] = [];
+
+    for (let lon = Math.ceil(west / step) * step; lon <= east; lon += step) {
+      const [x] = project(view, width, mapHeight, [lon, 0]);
+      lines.push(
+        <g key={`lon-${lon}`}>
+          <line x1={x} y1={0} x2={x} y2={mapHeight} stroke="#e5e7eb" />
+          {!thumbnail && (
+            <text x={x + 2} y={mapHeight - 4} fontSize={10} fill="#9ca3af">
+              {formatDegrees(lon, step)}°
+            </text>
+          )}
+        </g>
+      );
+    }
+    for (let lat = Math.ceil(south / step) * step; lat <= north; lat += step) {
+      const [, y] = project(view, width, mapHeight, [0, lat]);
+      lines.push(
+        <g key={`lat-${lat}`}>
+          <line x1={0} y1={y} x2={width} y2={y} stroke="#e5e7eb" />
+          {!thumbnail && (
+            <text x={4} y={y - 2} fontSize={10} fill="#9ca3af">
+              {formatDegrees(lat, step)}°
+            </text>
+          )}
+        </g>
+      );
+    }
+    return lines;
+  };
+
+  const renderGeometry = () => {
+    if (!geometry) return null;
+
+    if (geometry.type === "Point") {
+      const [x, y] = project(view, width, mapHeight, geometry.coordinates);
+      return (
+        <circle
+          cx={x}
+          cy={y}
+          r={thumbnail ? 4 : 6}
+          fill="#16a34a"
+          stroke="white"
+          strokeWidth={2}
+          className={editable ? "cursor-move" : undefined}
+          onPointerDown={
+            editable
+              ? (e) => {
+                  e.stopPropagation();
+                  setDragging("point");
+                }
+              : undefined
+          }
+        />
+      );
+    }
+
+    return getPolygons(geometry).map((rings, polygonIndex) => (
+      <g key={polygonIndex}>
+        <path
+          d={rings.map(toPath).join(" ")}
+          fill="rgba(22, 163, 74, 0.25)"
+          fillRule="evenodd"
+          stroke="#16a34a"
+          strokeWidth={thumbnail ? 1 : 2}
+        />
+        {editable &&
+          rings.map((ring, ringIndex) =>
+            ring.slice(0, -1).map((position, vertexIndex) => {
+              const target = {
+                polygon: polygonIndex,
+                ring: ringIndex,
+                vertex: vertexIndex,
+              };
+              const [x, y] = project(view, width, mapHeight, position);
+              const next = ring[vertexIndex + 1];
+              const midpoint: Position = [
+                (position[0] + next[0]) / 2,
+                (position[1] + next[1]) / 2,
+              ];
+              const [mx, my] = project(view, width, mapHeight, midpoint);
+              return (
+                <g key={`${ringIndex}-${vertexIndex}`}>
+                  <circle
+                    cx={mx}
+                    cy={my}
+                    r={4}
+                    fill="white"
+                    stroke="#16a34a"
+                    opacity={0.7}
+                    className="cursor-copy"
+                    onPointerDown={(e) => {
+                      e.stopPropagation();
+                      insertVertex(target, midpoint);
+                    }}
+                  >
+                    <title>Add vertex</title>
+                  </circle>
+                  <circle
+                    cx={x}
+                    cy={y}
+                    r={6}
+                    fill="#16a34a"
+                    stroke="white"
+                    strokeWidth={2}
+                    className="cursor-move"
+                    onPointerDown={(e) => {
+                      e.stopPropagation();
+                      setDragging(target);
+                    }}
+                    onDoubleClick={() => removeVertex(target)}
+                  >
+                    <title>Drag to move, double-click to remove</title>
+                  </circle>
+                </g>
+              );
+            })
+          )}
+      </g>
+    ));
+  };
+
+  const renderDrawing = () => {
+    if (!drawing || drawing.length === 0) return null;
+    const points = drawing
+      .map((position) => project(view, width, mapHeight, position).join(","))
+      .join(" ");
+    return (
+      <g>
+        <polyline
+          points={points}
+          fill="none"
+          stroke="#2563eb"
+          strokeWidth={2}
+          strokeDasharray="4 3"
+        />
+        {drawing.map((position, index) => {
+          const [x, y] = project(view, width, mapHeight, position);
+          return <circle key={index} cx={x} cy={y} r={4} fill="#2563eb" />;
+        })}
+      </g>
+    );
+  };
+
+  const map = (
+    <svg
+      ref={svgRef}
+      viewBox={`0 0 ${width} ${mapHeight}`}
+      className={cn(
+        "w-full rounded-md border bg-slate-50 select-none touch-none",
+        thumbnail && "pointer-events-none",
+        drawing && "cursor-crosshair",
+        className
+      )}
+      onPointerMove={thumbnail ? undefined : handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerLeave={handlePointerUp}
+    >
+      <rect
+        x={0}
+        y={0}
+        width={width}
+        height={mapHeight}
+        fill="transparent"
+        onPointerDown={handleBackgroundPointerDown}
+      />
+      {renderLand()}
+      {renderGrid()}
+      {renderGeometry()}
+      {renderDrawing()}
+    </svg>
+  );
+
+  if (thumbnail) return map;
+
+  const area = geometry ? geometryAreaHectares(geometry) : 0;
+  const centroid = geometry ? geometryCentroid(geometry) : null;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => zoom(1.5)}
+        >
+          +
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => zoom(1 / 1.5)}
+        >
+          −
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() =>
+            setView(
+              fitView(
+                geometry ? geometryBounds(geometry) : WORLD,
+                width,
+                mapHeight
+              )
+            )
+          }
+        >
+          Fit
+        </Button>
+        {editable &&
+          (drawing ? (
+            <>
+              <Button
+                type="button"
+                size="sm"
+                onClick={finishDrawing}
+                disabled={drawing.length < 3}
+              >
+                Finish polygon
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => setDrawing(null)}
+              >
+                Cancel
+              </Button>
+              <span className="text-xs text-gray-500">
+                Click on the map to add vertices ({drawing.length} so far)
+              </span>
+            </>
+          ) : (
+            <>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setDrawing([])}
+              >
+                Draw polygon
+              </Button>
+              {geometry && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => emit(null)}
+                >
+                  Clear
+                </Button>
+              )}
+            </>
+          ))}
+      </div>
+      {map}
+      {geometry && centroid && (
+        <p className="text-sm text-gray-600">
+          {geometry.type !== "Point" && (
+            <>
+              <span className="font-medium">Area:</span> {area.toFixed(2)} ha ·{" "}
+            </>
+          )}
+          <span className="font-medium">Centroid:</span>{" "}
+          {centroid[1].toFixed(6)}, {centroid[0].toFixed(6)}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default PlotMap;
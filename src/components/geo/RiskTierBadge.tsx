@@ -0,0 +1,26 @@
+import React from "react";
+import { cn } from "../../lib/utils";
+import {
+  RiskTier,
+  riskTierLabels,
+  riskTierStyles,
+} from "../../lib/countryRisk";
+
+interface RiskTierBadgeProps {
+  tier: RiskTier;
+  className?: string;
+}
+
+const RiskTierBadge: React.FC<RiskTierBadgeProps> = ({ tier, className }) => (
+  <span
+    className={cn(
+      "inline-flex items-center rounded-full px-3 py-1 text-xs font-medium",
+      riskTierStyles[tier],
+      className
+    )}
+  >
+    {riskTierLabels[tier]}
+  </span>
+);
+
+export default RiskTierBadge;
@@ -0,0 +1,106 @@
+import React from "react";
+import { Library, X } from "lucide-react";
+import { Label } from "../ui/label";
+import { Button } from "../ui/button";
+import { Select } from "../ui/select";
+import { describeValidity, isDocumentExpired } from "../../lib/documentLibrary";
+import { cn } from "../../lib/utils";
+import { LibraryDocument } from "../../types/submission";
+
+interface LibraryPickerProps {
+  id: string;
+  // Library documents of the category, attached or not
+  documents: LibraryDocument[];
+  attached: LibraryDocument[];
+  onAttach: (document: LibraryDocument) => void;
+  onDetach: (fileId: string) => void;
+}
+
+// Attaches previously uploaded files by reference instead of uploading again
+const LibraryPicker: React.FC<LibraryPickerProps> = ({
+  id,
+  documents,
+  attached,
+  onAttach,
+  onDetach,
+}) => {
+  const attachedIds = attached.map((document) => document.fileId);
+  const available = documents.filter(
+    (document) => !attachedIds.includes(document.fileId)
+  );
+
+  const handlePick = (fileId: string) => {
+    const document = available.find((entry) => entry.fileId === fileId);
+    if (document) onAttach(document);
+  };
+
+  return (
+    <div className="space-y-2">
+      {attached.length > 0 && (
+        <ul className="grid gap-1">
+          {attached.map((document) => (
+            <li
+              key={document.fileId}
+              className="flex items-center gap-2 rounded bg-indigo-50 px-3 py-1 text-sm"
+            >
+              <Library className="h-4 w-4 shrink-0 text-indigo-600" />
+              <span className="flex-1 truncate">
+                {document.fileName}
+                {document.certificate &&
+                  ` (${document.certificate.certificateNumber})`}
+              </span>
+              <span
+                className={cn(
+                  "text-xs",
+                  isDocumentExpired(document)
+                    ? "font-medium text-red-600"
+                    : "text-gray-500"
+                )}
+              >
+                {isDocumentExpired(document)
+                  ? `Expired ${document.validUntil}`
+                  : describeValidity(document)}
+              </span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={() => onDetach(document.fileId)}
+                aria-label={`Detach ${document.fileName}`}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {available.length > 0 && (
+        <div>
+          <Label htmlFor={`${id}-library`} className="text-sm">
+            Document library
+          </Label>
+          <Select
+            id={`${id}-library`}
+            value=""
+            onChange={(e) => handlePick(e.target.value)}
+            className="mt-1"
+          >
+            <option value="">Attach a previously uploaded file...</option>
+            {available.map((document) => (
+              <option
+                key={document.fileId}
+                value={document.fileId}
+                disabled={isDocumentExpired(document)}
+              >
+                {document.fileName} - {describeValidity(document)}
+                {isDocumentExpired(document) && " (expired)"}
+              </option>
+            ))}
+          </Select>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LibraryPicker;
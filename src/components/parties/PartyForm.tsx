@@ -0,0 +1,183 @@
+import React, { useState } from "react";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { Select } from "../ui/select";
+import { Button } from "../ui/button";
+import { PartyField, emptyParty, validateParty } from "../../lib/parties";
+import { cn } from "../../lib/utils";
+import { AddressBookEntry, Party, PartyAddress } from "../../types/submission";
+
+interface PartyFormProps {
+  id: string;
+  value: Party | null;
+  onChange: (party: Party) => void;
+  // Show every error, not just those of fields the user has left
+  showAllErrors: boolean;
+  addressBook: AddressBookEntry[];
+  onForget: (key: string) => void;
+}
+
+const PartyForm: React.FC<PartyFormProps> = ({
+  id,
+  value,
+  onChange,
+  showAllErrors,
+  addressBook,
+  onForget,
+}) => {
+  const party = value || emptyParty();
+  const [touched, setTouched] = useState<Partial<Record<PartyField, true>>>({});
+  const [selectedKey, setSelectedKey] = useState("");
+  const errors = validateParty(party);
+
+  const errorFor = (field: PartyField) =>
+    showAllErrors || touched[field] ? errors[field] : undefined;
+
+  const setField = (field: Exclude<keyof Party, "address">, text: string) =>
+    onChange({ ...party, [field]: text });
+
+  const setAddressField = (field: keyof PartyAddress, text: string) =>
+    onChange({ ...party, address: { ...party.address, [field]: text } });
+
+  const field = (
+    name: PartyField,
+    label: string,
+    text: string,
+    update: (text: string) => void,
+    props: React.InputHTMLAttributes<HTMLInputElement> = {}
+  ) => (
+    <div>
+      <Label htmlFor={`${id}-${name}`} className="text-sm">
+        {label}
+      </Label>
+      <Input
+        id={`${id}-${name}`}
+        value={text}
+        onChange={(e) => update(e.target.value)}
+        onBlur={() => setTouched((prev) => ({ ...prev, [name]: true }))}
+        className={cn("mt-1", errorFor(name) && "border-red-500")}
+        {...props}
+      />
+      {errorFor(name) && (
+        <p className="text-sm text-red-500 mt-1">{errorFor(name)}</p>
+      )}
+    </div>
+  );
+
+  const handlePick = (key: string) => {
+    setSelectedKey(key);
+    const entry = addressBook.find((item) => item.key === key);
+    if (entry) onChange(entry.party);
+  };
+
+  return (
+    <div className="grid gap-4 rounded-lg border p-4">
+      {addressBook.length > 0 && (
+        <div className="flex items-end gap-2">
+          <div className="flex-1">
+            <Label htmlFor={`${id}-addressBook`} className="text-sm">
+              Address book
+            </Label>
+            <Select
+              id={`${id}-addressBook`}
+              value={selectedKey}
+              onChange={(e) => handlePick(e.target.value)}
+              className="mt-1"
+            >
+              <option value="">Pick a previously used party...</option>
+              {addressBook.map((entry) => (
+                <option key={entry.key} value={entry.key}>
+                  {entry.party.legalName}
+                  {entry.party.address.country &&
+                    ` (${entry.party.address.country})`}
+                </option>
+              ))}
+            </Select>
+          </div>
+          {selectedKey && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                onForget(selectedKey);
+                setSelectedKey("");
+              }}
+            >
+              Remove from address book
+            </Button>
+          )}
+        </div>
+      )}
+      {field("legalName", "Legal name *", party.legalName, (text) =>
+        setField("legalName", text)
+      )}
+      <div className="grid gap-4 md:grid-cols-3">
+        {field(
+          "registrationNumber",
+          "Registration number",
+          party.registrationNumber,
+          (text) => setField("registrationNumber", text)
+        )}
+        {field("vatNumber", "VAT / tax number", party.vatNumber, (text) =>
+          setField("vatNumber", text)
+        )}
+        {field("eoriNumber", "EORI number", party.eoriNumber, (text) =>
+          setField("eoriNumber", text.toUpperCase())
+        )}
+      </div>
+      <div className="grid gap-4 md:grid-cols-2">
+        {field(
+          "email",
+          "Email *",
+          party.email,
+          (text) => setField("email", text),
+          { type: "email" }
+        )}
+        {field(
+          "phone",
+          "Phone",
+          party.phone,
+          (text) => setField("phone", text),
+          { type: "tel" }
+        )}
+      </div>
+      <div className="grid gap-4 md:grid-cols-2">
+        {field(
+          "address.line1",
+          "Street address *",
+          party.address.line1,
+          (text) => setAddressField("line1", text)
+        )}
+        {field("address.line2", "Address line 2", party.address.line2, (text) =>
+          setAddressField("line2", text)
+        )}
+      </div>
+      <div className="grid gap-4 md:grid-cols-4">
+        {field("address.city", "City *", party.address.city, (text) =>
+          setAddressField("city", text)
+        )}
+        {field(
+          "address.postalCode",
+          "Postal code",
+          party.address.postalCode,
+          (text) => setAddressField("postalCode", text)
+        )}
+        {field(
+          "address.region",
+          "Region / province",
+          party.address.region,
+          (text) => setAddressField("region", text)
+        )}
+        {field(
+          "address.country",
+          "Country code *",
+          party.address.country,
+          (text) => setAddressField("country", text.toUpperCase()),
+          { maxLength: 2, placeholder: "e.g. ID" }
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PartyForm;
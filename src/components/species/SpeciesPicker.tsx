@@ -0,0 +1,252 @@
+import React, { useState } from "react";
+import { X } from "lucide-react";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { Button } from "../ui/button";
+import {
+  CatalogueSpecies,
+  checkSpecies,
+  searchSpecies,
+} from "../../lib/species";
+import { cn } from "../../lib/utils";
+import { Species } from "../../types/submission";
+
+interface SpeciesPickerProps {
+  id: string;
+  value: Species[];
+  onChange: (species: Species[]) => void;
+  onBlur?: () => void;
+  invalid?: boolean;
+}
+
+const SpeciesPicker: React.FC<SpeciesPickerProps> = ({
+  id,
+  value,
+  onChange,
+  onBlur,
+  invalid,
+}) => {
+  const [query, setQuery] = useState("");
+  const [open, setOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const chosen = value.map((species) =>
+    species.scientificName.trim().toLowerCase()
+  );
+  const results = searchSpecies(query).filter(
+    (entry) => !chosen.includes(entry.scientificName.toLowerCase())
+  );
+
+  const add = (species: Species) => {
+    onChange([...value, species]);
+    setQuery("");
+    setHighlighted(0);
+  };
+
+  const addFromCatalogue = (entry: CatalogueSpecies) =>
+    add({
+      commonName: entry.commonNames[0] || "",
+      scientificName: entry.scientificName,
+    });
+
+  // Species missing from the list are added as typed, and warned about below
+  const addUnlisted = () => {
+    if (query.trim()) add({ commonName: "", scientificName: query.trim() });
+  };
+
+  const update = (index: number, changes: Partial<Species>) =>
+    onChange(
+      value.map((species, i) =>
+        i === index ? { ...species, ...changes } : species
+      )
+    );
+
+  const remove = (index: number) =>
+    onChange(value.filter((_, i) => i !== index));
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      setOpen(true);
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setHighlighted((current) =>
+        Math.min(Math.max(current + step, 0), results.length - 1)
+      );
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      if (open && results[highlighted]) {
+        addFromCatalogue(results[highlighted]);
+      } else {
+        addUnlisted();
+      }
+    } else if (e.key === "Escape") {
+      setOpen(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {value.length > 0 && (
+        <ul className="grid gap-3">
+          {value.map((species, index) => {
+            const check = checkSpecies(species);
+            const { suggestion } = check;
+            return (
+              <li key={index} className="rounded-md border p-3">
+                <div className="grid gap-2 md:grid-cols-[1fr_1fr_auto] items-end">
+                  <div>
+                    <Label
+                      htmlFor={`${id}-${index}-common`}
+                      className="text-sm"
+                    >
+                      Common name
+                    </Label>
+                    <Input
+                      id={`${id}-${index}-common`}
+                      value={species.commonName}
+                      onChange={(e) =>
+                        update(index, { commonName: e.target.value })
+                      }
+                      onBlur={onBlur}
+                      className="mt-1"
+                    />
+                  </div>
+                  <div>
+                    <Label
+                      htmlFor={`${id}-${index}-scientific`}
+                      className="text-sm"
+                    >
+                      Scientific name *
+                    </Label>
+                    <Input
+                      id={`${id}-${index}-scientific`}
+                      value={species.scientificName}
+                      onChange={(e) =>
+                        update(index, { scientificName: e.target.value })
+                      }
+                      onBlur={onBlur}
+                      className={cn(
+                        "mt-1 italic",
+                        check.error && "border-red-500"
+                      )}
+                    />
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => remove(index)}
+                    aria-label={`Remove ${species.scientificName || "species"}`}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+                {check.error && (
+                  <p className="text-sm text-red-500 mt-1">{check.error}</p>
+                )}
+                {check.warning && (
+                  <p className="text-sm text-amber-700 mt-1">{check.warning}</p>
+                )}
+                {suggestion && (
+                  <Button
+                    variant="link"
+                    size="sm"
+                    className="h-auto p-0"
+                    onClick={() =>
+                      update(index, {
+                        scientificName: suggestion.scientificName,
+                      })
+                    }
+                  >
+                    Use {suggestion.scientificName}
+                  </Button>
+                )}
+                {check.cites && (
+                  <p className="mt-2 rounded-md bg-red-50 p-2 text-sm text-red-700">
+                    CITES Appendix {check.cites}: trade needs a CITES permit
+                    issued by the country of export
+                  </p>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      <div className="relative">
+        <Input
+          id={id}
+          role="combobox"
+          aria-expanded={open}
+          aria-controls={`${id}-options`}
+          autoComplete="off"
+          value={query}
+          placeholder="Search by common or scientific name"
+          onFocus={() => setOpen(true)}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setHighlighted(0);
+            setOpen(true);
+          }}
+          onBlur={() => {
+            setOpen(false);
+            onBlur?.();
+          }}
+          onKeyDown={handleKeyDown}
+          className={cn(invalid && value.length === 0 && "border-red-500")}
+        />
+        {open && (
+          <ul
+            id={`${id}-options`}
+            role="listbox"
+            className="absolute z-20 mt-1 max-h-64 w-full overflow-auto rounded-md border bg-white py-1 shadow-lg"
+          >
+            {results.map((entry, index) => (
+              <li
+                key={entry.scientificName}
+                role="option"
+                aria-selected={index === highlighted}
+                onMouseDown={(e) => {
+                  // Keep focus in the input so several species can be added
+                  e.preventDefault();
+                  addFromCatalogue(entry);
+                }}
+                onMouseEnter={() => setHighlighted(index)}
+                className={cn(
+                  "flex cursor-pointer justify-between gap-4 px-3 py-1.5 text-sm",
+                  index === highlighted && "bg-gray-100"
+                )}
+              >
+                <span>
+                  <span className="italic">{entry.scientificName}</span>
+                  <span className="text-gray-500">
+                    {" "}
+                    · {entry.commonNames.join(", ")}
+                  </span>
+                </span>
+                {entry.cites && (
+                  <span className="text-xs font-medium text-red-700">
+                    CITES {entry.cites}
+                  </span>
+                )}
+              </li>
+            ))}
+            {query.trim() && (
+              <li
+                role="option"
+                aria-selected={false}
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  addUnlisted();
+                }}
+                className="cursor-pointer px-3 py-1.5 text-sm text-gray-600 hover:bg-gray-100"
+              >
+                Add "{query.trim()}" as an unlisted species
+              </li>
+            )}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SpeciesPicker;
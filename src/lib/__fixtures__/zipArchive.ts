@@ -0,0 +1,61 @@
+// Test helpers for building ZIP archives in memory
+
+const u16 = (value: number) => [value & 0xff, (value >> 8) & 0xff];
+const u32 = (value: number) => [...u16(value & 0xffff), ...u16(value >>> 16)];
+export const ascii = (text: string) =>
+  Array.from(text, (char) => char.charCodeAt(0));
+
+// An archive of empty, stored entries: local headers, central directory and
+// end record, which is all the sniffer reads
+export const zipArchive = (names: string[], comment = ""): number[] => {
+  const local: number[] = [];
+  const central: number[] = [];
+  names.forEach((name) => {
+    const offset = local.length;
+    local.push(
+      ...u32(0x04034b50),
+      ...u16(20),
+      ...u16(0),
+      ...u16(0),
+      ...u32(0),
+      ...u32(0),
+      ...u32(0),
+      ...u32(0),
+      ...u16(name.length),
+      ...u16(0),
+      ...ascii(name)
+    );
+    central.push(
+      ...u32(0x02014b50),
+      ...u16(20),
+      ...u16(20),
+      ...u16(0),
+      ...u16(0),
+      ...u32(0),
+      ...u32(0),
+      ...u32(0),
+      ...u32(0),
+      ...u16(name.length),
+      ...u16(0),
+      ...u16(0),
+      ...u16(0),
+      ...u16(0),
+      ...u32(0),
+      ...u32(offset),
+      ...ascii(name)
+    );
+  });
+  return [
+    ...local,
+    ...central,
+    ...u32(0x06054b50),
+    ...u16(0),
+    ...u16(0),
+    ...u16(names.length),
+    ...u16(names.length),
+    ...u32(central.length),
+    ...u32(local.length),
+    ...u16(comment.length),
+    ...ascii(comment),
+  ];
+};
@@ -0,0 +1,160 @@
+import { uploadKey } from "../services/api";
+import { CertificateDetails, Document, FileData } from "../types/submission";
+import { isIsoDate, todayIsoDate } from "./dateRanges";
+import { LibraryAttachments } from "./documentLibrary";
+import { checkFscCode } from "./fsc";
+import { fileSchema } from "./submissionSchema";
+
+export type CertificateField = keyof CertificateDetails;
+export type CertificateErrors = Partial<Record<CertificateField, string>>;
+
+export const emptyCertificate = (): CertificateDetails => ({
+  certificateNumber: "",
+  issuer: "",
+  issueDate: "",
+  expiryDate: "",
+});
+
+export const certificateCategories = (
+  Object.keys(fileSchema) as Array<keyof FileData>
+).filter((key) => fileSchema[key].certificate);
+
+export const isCertificateCategory = (key: string): boolean =>
+  certificateCategories.includes(key as keyof FileData);
+
+// FSC categories hold the FSC certificate or licence code as the number
+export const isFscCategory = (category: keyof FileData): boolean =>
+  Boolean(fileSchema[category].fscCodeTypes);
+
+export const validateCertificate = (
+  details: CertificateDetails,
+  category?: keyof FileData,
+  today = todayIsoDate()
+): CertificateErrors => {
+  const errors: CertificateErrors = {};
+  const fscCodeTypes = category && fileSchema[category].fscCodeTypes;
+  if (!details.certificateNumber.trim()) {
+    errors.certificateNumber = "Certificate number is required";
+  } else if (fscCodeTypes) {
+    const error = checkFscCode(details.certificateNumber, fscCodeTypes);
+    if (error) errors.certificateNumber = error;
+  }
+  if (details.issueDate && !isIsoDate(details.issueDate)) {
+    errors.issueDate = "Enter a valid date";
+  } else if (details.issueDate > today) {
+    errors.issueDate = "The issue date can't be in the future";
+  }
+  if (!details.expiryDate) {
+    errors.expiryDate = "Expiry date is required";
+  } else if (!isIsoDate(details.expiryDate)) {
+    errors.expiryDate = "Enter a valid date";
+  } else if (details.issueDate && details.expiryDate < details.issueDate) {
+    errors.expiryDate = "The certificate expires before it was issued";
+  }
+  return errors;
+};
+
+// Whole days from today; negative once the certificate has expired
+export const daysUntilExpiry = (
+  details: CertificateDetails,
+  today = todayIsoDate()
+): number =>
+  Math.round(
+    (Date.parse(details.expiryDate) - Date.parse(today)) / (24 * 3600 * 1000)
+  );
+
+export const isExpired = (
+  details: CertificateDetails,
+  today = todayIsoDate()
+): boolean => Boolean(details.expiryDate) && details.expiryDate < today;
+
+// The first problem with each certificate category's files, for the form's
+// validation summary. Details are keyed by uploadKey.
+export const validateCertificates = (
+  fileData: FileData,
+  certificates: Record<string, CertificateDetails>
+): Partial<Record<keyof FileData, string>> => {
+  const errors: Partial<Record<keyof FileData, string>> = {};
+  certificateCategories.forEach((category) => {
+    fileData[category].some((file) => {
+      const details =
+        certificates[uploadKey(category, file)] || emptyCertificate();
+      const message = Object.values(validateCertificate(details, category))[0];
+      if (message) errors[category] = `${file.name}: ${message}`;
+      return Boolean(message);
+    });
+  });
+  return errors;
+};
+
+// Certificate details per category, in the order of the category's files:
+// those attached from the document library first, then the new uploads
+export const certificatesPayload = (
+  fileData: FileData,
+  certificates: Record<string, CertificateDetails>,
+  attachments: LibraryAttachments = {}
+): Record<string, CertificateDetails[]> =>
+  Object.fromEntries(
+    certificateCategories
+      .map((category): [string, CertificateDetails[]] => [
+        category,
+        [
+          ...(attachments[category] || []).map(
+            (document) => document.certificate || emptyCertificate()
+          ),
+          ...fileData[category].map(
+            (file) =>
+              certificates[uploadKey(category, file)] || emptyCertificate()
+          ),
+        ],
+      ])
+      .filter(([_, details]) => details.length > 0)
+  );
+
+// One certificate and the submissions it is attached to; a library
+// certificate is usually reused across many shipments
+export interface TrackedCertificate {
+  // Category, number and expiry date, which identify the certificate
+  key: string;
+  category: keyof FileData;
+  details: CertificateDetails;
+  daysLeft: number;
+  documents: Document[];
+}
+
+// Certificates across submissions that expire within the given number of
+// days, including those already expired, soonest first
+export const expiringCertificates = (
+  documents: Document[],
+  withinDays: number,
+  today = todayIsoDate()
+): TrackedCertificate[] => {
+  const tracked: Record<string, TrackedCertificate> = {};
+  documents.forEach((document) =>
+    certificateCategories.forEach((category) =>
+      (document.certificates?.[category] || []).forEach((details) => {
+        if (!details || !isIsoDate(details.expiryDate)) return;
+        const key = [
+          category,
+          details.certificateNumber.trim().toUpperCase(),
+          details.expiryDate,
+        ].join("|");
+        const existing = tracked[key];
+        if (!existing) {
+          tracked[key] = {
+            key,
+            category,
+            details,
+            daysLeft: daysUntilExpiry(details, today),
+            documents: [document],
+          };
+        } else if (!existing.documents.includes(document)) {
+          existing.documents.push(document);
+        }
+      })
+    )
+  );
+  return Object.values(tracked)
+    .filter((certificate) => certificate.daysLeft <= withinDays)
+    .sort((a, b) => a.daysLeft - b.daysLeft);
+};
@@ -0,0 +1,119 @@
+import countryRegionData from "country-region-data/data.json";
+
+// ISO 3166-1 alpha-2 country codes
+export const ISO_COUNTRY_CODES = [
+  "AD", "AE", "AF", "AG", "AI", "AL", "AM", "AO", "AQ", "AR", "AS", "AT",
+  "AU", "AW", "AX", "AZ", "BA", "BB", "BD", "BE", "BF", "BG", "BH", "BI",
+  "BJ", "BL", "BM", "BN", "BO", "BQ", "BR", "BS", "BT", "BV", "BW", "BY",
+  "BZ", "CA", "CC", "CD", "CF", "CG", "CH", "CI", "CK", "CL", "CM", "CN",
+  "CO", "CR", "CU", "CV", "CW", "CX", "CY", "CZ", "DE", "DJ", "DK", "DM",
+  "DO", "DZ", "EC", "EE", "EG", "EH", "ER", "ES", "ET", "FI", "FJ", "FK",
+  "FM", "FO", "FR", "GA", "GB", "GD", "GE", "GF", "GG", "GH", "GI", "GL",
+  "GM", "GN", "GP", "GQ", "GR", "GS", "GT", "GU", "GW", "GY", "HK", "HM",
+  "HN", "HR", "HT", "HU", "ID", "IE", "IL", "IM", "IN", "IO", "IQ", "IR",
+  "IS", "IT", "JE", "JM", "JO", "JP", "KE", "KG", "KH", "KI", "KM", "KN",
+  "KP", "KR", "KW", "KY", "KZ", "LA", "LB", "LC", "LI", "LK", "LR", "LS",
+  "LT", "LU", "LV", "LY", "MA", "MC", "MD", "ME", "MF", "MG", "MH", "MK",
+  "ML", "MM", "MN", "MO", "MP", "MQ", "MR", "MS", "MT", "MU", "MV", "MW",
+  "MX", "MY", "MZ", "NA", "NC", "NE", "NF", "NG", "NI", "NL", "NO", "NP",
+  "NR", "NU", "NZ", "OM", "PA", "PE", "PF", "PG", "PH", "PK", "PL", "PM",
+  "PN", "PR", "PS", "PT", "PW", "PY", "QA", "RE", "RO", "RS", "RU", "RW",
+  "SA", "SB", "SC", "SD", "SE", "SG", "SH", "SI", "SJ", "SK", "SL", "SM",
+  "SN", "SO", "SR", "SS", "ST", "SV", "SX", "SY", "SZ", "TC", "TD", "TF",
+  "TG", "TH", "TJ", "TK", "TL", "TM", "TN", "TO", "TR", "TT", "TV", "TW",
+  "TZ", "UA", "UG", "UM", "US", "UY", "UZ", "VA", "VC", "VE", "VG", "VI",
+  "VN", "VU", "WF", "WS", "YE", "YT", "ZA", "ZM", "ZW",
+];
+
+export const isCountryCode = (value: string): boolean =>
+  ISO_COUNTRY_CODES.includes(value.toUpperCase());
+
+export interface CountryRegion {
+  country: string;
+  region: string;
+}
+
+// "ID" or "ID - Riau": an ISO 3166-1 alpha-2 code, optionally followed by a region
+export const parseCountryRegion = (value: string): CountryRegion | null => {
+  const match = value.trim().match(/^([A-Za-z]{2})(?:\s*[-,]\s*(\S.*))?$/);
+  if (!match || !isCountryCode(match[1])) return null;
+  return { country: match[1].toUpperCase(), region: match[2]?.trim() || "" };
+};
+
+export interface Subdivision {
+  // ISO 3166-2 code without the country prefix, e.g. "RI" for ID-RI
+  code: string;
+  name: string;
+}
+
+export interface Country {
+  code: string;
+  name: string;
+  subdivisions: Subdivision[];
+}
+
+// ISO 3166-1 countries with their ISO 3166-2 subdivisions, sorted by name.
+// The bundled dataset writes some subdivision codes with the country prefix
+// and leaves a few without a code; those are kept by name only.
+export const countries: Country[] = countryRegionData
+  .filter((entry) => isCountryCode(entry.countryShortCode))
+  .map((entry) => ({
+    code: entry.countryShortCode,
+    name: entry.countryName,
+    subdivisions: entry.regions.map((region) => ({
+      code: (region.shortCode || "")
+        .replace(`${entry.countryShortCode}-`, "")
+        .toUpperCase(),
+      name: region.name,
+    })),
+  }))
+  .sort((a, b) => a.name.localeCompare(b.name));
+
+const countriesByCode: Record<string, Country> = {};
+countries.forEach((country) => {
+  countriesByCode[country.code] = country;
+});
+
+export const findCountry = (code: string): Country | undefined =>
+  countriesByCode[code.trim().toUpperCase()];
+
+export const countryName = (code: string): string =>
+  findCountry(code)?.name || code.toUpperCase();
+
+// Older submissions hold the region as free text, newer ones as its code
+export const findSubdivision = (
+  countryCode: string,
+  region: string
+): Subdivision | undefined => {
+  const value = region.trim().toLowerCase();
+  if (!value) return undefined;
+  return findCountry(countryCode)?.subdivisions.find(
+    (subdivision) =>
+      subdivision.code.toLowerCase() === value ||
+      subdivision.name.toLowerCase() === value
+  );
+};
+
+// The stored form: "ID", "ID-RI", or "CK - Aitutaki" for a subdivision
+// without a code
+export const formatCountryRegion = (
+  countryCode: string,
+  subdivision?: Subdivision
+): string => {
+  if (!subdivision) return countryCode;
+  return subdivision.code
+    ? `${countryCode}-${subdivision.code}`
+    : `${countryCode} - ${subdivision.name}`;
+};
+
+// "Indonesia, Riau" for display; unparseable legacy values are shown as entered
+export const describeCountryRegion = (
+  value: string | null | undefined
+): string => {
+  const parsed = parseCountryRegion(value || "");
+  if (!parsed) return value || "";
+  const name = countryName(parsed.country);
+  if (!parsed.region) return name;
+  const subdivision = findSubdivision(parsed.country, parsed.region);
+  return `${name}, ${subdivision?.name || parsed.region}`;
+};
@@ -0,0 +1,33 @@
+import countryRisk from "../data/eudrCountryRisk.json";
+import { riskTierFor } from "./countryRisk";
+
+describe("riskTierFor", () => {
+  it("classifies the high-risk countries", () => {
+    ["BY", "KP", "MM", "RU"].forEach((code) =>
+      expect(riskTierFor(code)).toBe("high")
+    );
+  });
+
+  it("classifies low-risk countries from every region", () => {
+    ["DE", "FR", "GB", "US", "CA", "CN", "IN", "JP", "AU", "UY", "ZA"].forEach(
+      (code) => expect(riskTierFor(code)).toBe("low")
+    );
+  });
+
+  it("treats unlisted countries as standard risk", () => {
+    ["BR", "ID", "MY", "CO", "CI", "GH", "CD", "PG"].forEach((code) =>
+      expect(riskTierFor(code)).toBe("standard")
+    );
+  });
+
+  it("ignores case and surrounding space", () => {
+    expect(riskTierFor(" in ")).toBe("low");
+    expect(riskTierFor("ru")).toBe("high");
+  });
+
+  it("lists each country in one tier only", () => {
+    const low = new Set(countryRisk.low);
+    expect(low.size).toBe(countryRisk.low.length);
+    expect(countryRisk.high.filter((code) => low.has(code))).toEqual([]);
+  });
+});
@@ -0,0 +1,35 @@
+import countryRisk from "../data/eudrCountryRisk.json";
+
+// EUDR country benchmarking (Article 29). The table in src/data is replaced
+// when the Commission revises the classification; countries it does not
+// list are standard risk.
+export type RiskTier = "low" | "standard" | "high";
+
+export const riskTierLabels: Record<RiskTier, string> = {
+  low: "Low risk",
+  standard: "Standard risk",
+  high: "High risk",
+};
+
+export const riskTierStyles: Record<RiskTier, string> = {
+  low: "bg-green-100 text-green-700",
+  standard: "bg-amber-100 text-amber-800",
+  high: "bg-red-100 text-red-700",
+};
+
+export const riskTableVersion = countryRisk.version;
+export const riskTableSource = countryRisk.source;
+
+export const riskTierFor = (countryCode: string): RiskTier => {
+  const code = countryCode.trim().toUpperCase();
+  if (countryRisk.high.includes(code)) return "high";
+  if (countryRisk.low.includes(code)) return "low";
+  return countryRisk.defaultTier as RiskTier;
+};
+
+// What the tier means for the operator's due diligence
+export const riskTierNotes: Record<RiskTier, string> = {
+  low: "Simplified due diligence applies",
+  standard: "Full due diligence applies",
+  high: "Enhanced due diligence required: origins are checked more often and need stronger risk mitigation",
+};
@@ -0,0 +1,99 @@
+import {
+  checkDateRange,
+  formatDateRanges,
+  isIsoDate,
+  parseDateRanges,
+  rangesAfterCutoff,
+  todayIsoDate,
+} from "./dateRanges";
+
+const today = "2024-06-15";
+
+describe("parseDateRanges", () => {
+  it("reads single days and ranges in either notation", () => {
+    expect(
+      parseDateRanges(
+        "2023-04-01; 2023-05-01/2023-06-30\n2023-07-01 to 2023-08-31",
+        today
+      )
+    ).toEqual({
+      ranges: [
+        { start: "2023-04-01", end: "2023-04-01" },
+        { start: "2023-05-01", end: "2023-06-30" },
+        { start: "2023-07-01", end: "2023-08-31" },
+      ],
+      errors: [],
+    });
+  });
+
+  it("ignores blank entries", () => {
+    expect(parseDateRanges(" ;\n", today)).toEqual({ ranges: [], errors: [] });
+  });
+
+  it("reports malformed and impossible dates", () => {
+    expect(parseDateRanges("April 2023", today).errors).toEqual([
+      '"April 2023" is not a date or range such as 2023-04-01/2023-06-30',
+    ]);
+    expect(parseDateRanges("2023-02-30", today).errors).toHaveLength(1);
+    expect(
+      parseDateRanges("2023-01-01/2023-02-01/2023-03-01", today).errors
+    ).toHaveLength(1);
+  });
+
+  it("keeps the valid ranges next to the errors", () => {
+    const result = parseDateRanges("2023-06-30/2023-01-01; 2023-03-01", today);
+    expect(result.ranges).toEqual([{ start: "2023-03-01", end: "2023-03-01" }]);
+    expect(result.errors).toEqual([
+      '"2023-06-30/2023-01-01": the end date is before the start date',
+    ]);
+  });
+});
+
+describe("checkDateRange", () => {
+  it("accepts a range ending today", () => {
+    expect(checkDateRange({ start: "2024-06-01", end: today }, today)).toBe(
+      null
+    );
+  });
+
+  it("rejects future dates", () => {
+    expect(
+      checkDateRange({ start: "2024-06-01", end: "2024-06-16" }, today)
+    ).toBe("Harvest dates can't be in the future");
+  });
+});
+
+describe("isIsoDate", () => {
+  it("accepts only real calendar dates", () => {
+    expect(isIsoDate("2024-02-29")).toBe(true);
+    expect(isIsoDate("2023-02-29")).toBe(false);
+    expect(isIsoDate("2023-13-01")).toBe(false);
+    expect(isIsoDate("2023-1-01")).toBe(false);
+  });
+});
+
+describe("todayIsoDate", () => {
+  afterEach(() => jest.useRealTimers());
+
+  it("uses the local calendar date", () => {
+    jest.useFakeTimers().setSystemTime(new Date(2024, 0, 5, 0, 30));
+    expect(todayIsoDate()).toBe("2024-01-05");
+    jest.setSystemTime(new Date(2024, 11, 31, 23, 30));
+    expect(todayIsoDate()).toBe("2024-12-31");
+  });
+});
+
+describe("formatting and the cutoff", () => {
+  const ranges = [
+    { start: "2020-06-01", end: "2020-12-31" },
+    { start: "2021-01-01", end: "2021-01-01" },
+  ];
+
+  it("writes ranges back in the stored notation", () => {
+    expect(formatDateRanges(ranges)).toBe("2020-06-01/2020-12-31; 2021-01-01");
+  });
+
+  it("lists the ranges that end after the cutoff", () => {
+    expect(rangesAfterCutoff(ranges)).toEqual([ranges[1]]);
+  });
+});
@@ -0,0 +1,90 @@
+// Harvest date ranges are written as ISO 8601 dates, either a single day
+// ("2023-04-01") or an interval ("2023-04-01/2023-06-30" or
+// "2023-04-01 to 2023-06-30"). Several ranges are separated by ";" or newlines.
+
+export interface DateRange {
+  start: string;
+  end: string;
+}
+
+export interface DateRangeParseResult {
+  ranges: DateRange[];
+  errors: string[];
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+// The EUDR cutoff: wood must come from land that has not been deforested or
+// degraded after this date
+export const EUDR_CUTOFF_DATE = "2020-12-31";
+
+// The local calendar date, which is what date inputs show and return
+export const todayIsoDate = () => {
+  const now = new Date();
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(
+    now.getDate()
+  )}`;
+};
+
+export const isIsoDate = (value: string): boolean => {
+  if (!ISO_DATE.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+};
+
+// Checks a complete range; the picker also uses it for a single row
+export const checkDateRange = (
+  range: DateRange,
+  today = todayIsoDate()
+): string | null => {
+  if (range.end < range.start) return "The end date is before the start date";
+  if (range.end > today) return "Harvest dates can't be in the future";
+  return null;
+};
+
+export const parseDateRanges = (
+  input: string,
+  today = todayIsoDate()
+): DateRangeParseResult => {
+  const ranges: DateRange[] = [];
+  const errors: string[] = [];
+
+  input
+    .split(/[;\n]/)
+    .map((part) => part.trim())
+    .filter((part) => part.length > 0)
+    .forEach((part) => {
+      const dates = part
+        .split(/\s*(?:\/|\bto\b)\s*/i)
+        .map((value) => value.trim());
+      const start = dates[0];
+      const end = dates.length > 1 ? dates[1] : start;
+
+      if (dates.length > 2 || !isIsoDate(start) || !isIsoDate(end)) {
+        errors.push(
+          `"${part}" is not a date or range such as 2023-04-01/2023-06-30`
+        );
+        return;
+      }
+      const error = checkDateRange({ start, end }, today);
+      if (error) {
+        errors.push(`"${part}": ${error.toLowerCase()}`);
+        return;
+      }
+      ranges.push({ start, end });
+    });
+
+  return { ranges, errors };
+};
+
+export const formatDateRange = (range: DateRange): string =>
+  range.start === range.end ? range.start : `${range.start}/${range.end}`;
+
+export const formatDateRanges = (ranges: DateRange[]): string =>
+  ranges.map(formatDateRange).join("; ");
+
+// Ranges reaching past the cutoff, whose plots need evidence that they were
+// not deforested since
+export const rangesAfterCutoff = (ranges: DateRange[]): DateRange[] =>
+  ranges.filter((range) => range.end > EUDR_CUTOFF_DATE);
@@ -0,0 +1,237 @@
+import { Document, Species } from "../types/submission";
+import { describeCountryRegion, parseCountryRegion } from "./countries";
+import { formatDateRange, parseDateRanges } from "./dateRanges";
+import { partyName } from "./parties";
+import { isScientificName, parseSpecies } from "./species";
+import {
+  Geometry,
+  geometryAreaHectares,
+  normalizeGeometry,
+  toGeometry,
+} from "./geo";
+
+// Maps a submission onto the Due Diligence Statement submitted to the EU
+// Information System under the EU Deforestation Regulation (EUDR). Field
+// names follow the Information System's submitDds request.
+
+export const pulpHsHeadings: Record<string, string> = {
+  "4701": "Mechanical wood pulp",
+  "4702": "Chemical wood pulp, dissolving grades",
+  "4703": "Chemical wood pulp, soda or sulphate",
+  "4704": "Chemical wood pulp, sulphite",
+  "4705": "Semi-chemical wood pulp",
+  "4706": "Pulps of fibres from recovered paper or other cellulosic material",
+};
+
+// Best guess from the trade name; the user confirms it before export
+export const guessHsHeading = (tradeName: string | null | undefined) => {
+  const name = tradeName || "";
+  if (/dissolving/i.test(name)) return "4702";
+  if (/sul(ph|f)ite/i.test(name)) return "4704";
+  if (/semi-?chemical/i.test(name)) return "4705";
+  if (/mechanical|\bc?tmp\b|groundwood/i.test(name)) return "4701";
+  if (/kraft|sul(ph|f)ate|\bbek\b|\bbhk\b|\bnbsk\b|\bbsk\b/i.test(name)) {
+    return "4703";
+  }
+  return "";
+};
+
+export interface DdsProducer {
+  country: string;
+  name: string;
+  // Base64 encoded GeoJSON FeatureCollection of the production plots
+  geometryGeojson: string;
+}
+
+export interface DdsCommodity {
+  descriptors: {
+    descriptionOfGoods: string;
+    goodsMeasure: {
+      // Kilograms
+      netWeight: number;
+    };
+  };
+  hsHeading: string;
+  speciesInfo: Species[];
+  producers: DdsProducer[];
+}
+
+export interface DdsRequest {
+  operatorType: "OPERATOR";
+  statement: {
+    internalReferenceNumber: string;
+    activityType: "IMPORT";
+    commodities: DdsCommodity[];
+    geoLocationConfidential: boolean;
+  };
+}
+
+export interface DdsResult {
+  request: DdsRequest | null;
+  errors: string[];
+}
+
+const toBase64 = (text: string) =>
+  btoa(
+    Array.from(new TextEncoder().encode(text), (byte) =>
+      String.fromCharCode(byte)
+    ).join("")
+  );
+
+// A point has no area of its own, so its plot's declared area is given
+export const plotFeatureCollection = (
+  geometry: Geometry,
+  productionPlace: string,
+  harvestPeriods: string[],
+  declaredAreaHectares = 0
+) => ({
+  type: "FeatureCollection",
+  features: [
+    {
+      type: "Feature",
+      geometry: normalizeGeometry(geometry),
+      properties: {
+        ProductionPlace: productionPlace,
+        Area: Number(
+          (geometry.type === "Point"
+            ? declaredAreaHectares
+            : geometryAreaHectares(geometry)
+          ).toFixed(4)
+        ),
+        HarvestPeriods: harvestPeriods,
+      },
+    },
+  ],
+});
+
+export const buildDds = (document: Document, hsHeading: string): DdsResult => {
+  const errors: string[] = [];
+
+  const description = document.tradeName?.trim() || "";
+  if (!description) {
+    errors.push("Trade name is needed as the description of goods");
+  }
+  if (!pulpHsHeadings[hsHeading]) {
+    errors.push("Choose the HS heading of the pulp");
+  }
+
+  const tonnes = Number(document.quantity);
+  if (!Number.isFinite(tonnes) || tonnes <= 0) {
+    errors.push("Quantity must be a positive number of tonnes");
+  }
+
+  const species = parseSpecies(document.speciesNames);
+  if (species.length === 0) {
+    errors.push("At least one species is required");
+  }
+  species
+    .filter((entry) => !isScientificName(entry.scientificName))
+    .forEach((entry) =>
+      errors.push(
+        `"${entry.scientificName}" is not a scientific name such as "Eucalyptus globulus"`
+      )
+    );
+
+  const origin = parseCountryRegion(document.woodOriginCountry || "");
+  if (!origin) {
+    errors.push("Country of wood origin must be an ISO country code");
+  }
+
+  const producerName = partyName(document.geolocationOwnerDetails);
+  if (!producerName) {
+    errors.push("Geolocation owner details must name the producer");
+  }
+
+  // toGeometry only returns valid geometries
+  const geometry = toGeometry(document.geolocationPolygon);
+  if (!geometry) {
+    errors.push("The harvest area has no valid geolocation");
+  }
+  const plotArea = Number(document.plotAreaHectares);
+  if (
+    geometry?.type === "Point" &&
+    !(Number.isFinite(plotArea) && plotArea > 0)
+  ) {
+    errors.push("The plot area must be declared for a point geolocation");
+  }
+
+  const { ranges, errors: dateErrors } = parseDateRanges(
+    document.harvestDates || ""
+  );
+  dateErrors.forEach((message) => errors.push(`Harvest dates: ${message}`));
+  if (ranges.length === 0 && dateErrors.length === 0) {
+    errors.push("Harvest dates are required");
+  }
+
+  if (errors.length > 0 || !origin || !geometry) {
+    return { request: null, errors };
+  }
+
+  const geojson = plotFeatureCollection(
+    geometry,
+    describeCountryRegion(document.woodOriginCountry),
+    ranges.map(formatDateRange),
+    plotArea
+  );
+
+  return {
+    request: {
+      operatorType: "OPERATOR",
+      statement: {
+        internalReferenceNumber: document._id,
+        activityType: "IMPORT",
+        commodities: [
+          {
+            descriptors: {
+              descriptionOfGoods: description,
+              goodsMeasure: { netWeight: Math.round(tonnes * 1000) },
+            },
+            hsHeading,
+            speciesInfo: species,
+            producers: [
+              {
+                country: origin.country,
+                name: producerName,
+                geometryGeojson: toBase64(JSON.stringify(geojson)),
+              },
+            ],
+          },
+        ],
+        geoLocationConfidential: false,
+      },
+    },
+    errors,
+  };
+};
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+// Arrays become repeated elements of the same name, as in the SOAP schema
+const toXmlElements = (
+  name: string,
+  value: unknown,
+  indent: string
+): string => {
+  if (Array.isArray(value)) {
+    return value.map((item) => toXmlElements(name, item, indent)).join("");
+  }
+  if (value !== null && typeof value === "object") {
+    const children = Object.entries(value)
+      .map(([key, child]) => toXmlElements(key, child, `${indent}  `))
+      .join("");
+    return `${indent}<${name}>\n${children}${indent}</${name}>\n`;
+  }
+  return `${indent}<${name}>${escapeXml(String(value))}</${name}>\n`;
+};
+
+export const ddsToXml = (request: DdsRequest): string =>
+  `<?xml version="1.0" encoding="UTF-8"?>\n${toXmlElements(
+    "submitDdsRequest",
+    request,
+    ""
+  )}`;
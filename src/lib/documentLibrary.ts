@@ -0,0 +1,78 @@
+import {
+  CertificateDetails,
+  FileData,
+  LibraryDocument,
+} from "../types/submission";
+import { todayIsoDate } from "./dateRanges";
+import { fileSchema } from "./submissionSchema";
+
+// Library documents attached to the submission being edited, per category
+export type LibraryAttachments = Partial<
+  Record<keyof FileData, LibraryDocument[]>
+>;
+
+export const reusableCategories = (
+  Object.keys(fileSchema) as Array<keyof FileData>
+).filter((key) => fileSchema[key].reusable);
+
+export const isReusableCategory = (key: string): boolean =>
+  reusableCategories.includes(key as keyof FileData);
+
+export const libraryDocument = (
+  category: keyof FileData,
+  file: File,
+  fileId: string,
+  certificate?: CertificateDetails
+): LibraryDocument => {
+  const now = new Date().toISOString();
+  return {
+    fileId,
+    category,
+    fileName: file.name,
+    size: file.size,
+    validFrom: certificate?.issueDate || "",
+    validUntil: certificate?.expiryDate || "",
+    certificate,
+    addedAt: now,
+    lastUsedAt: now,
+  };
+};
+
+export const isDocumentExpired = (
+  document: LibraryDocument,
+  today = todayIsoDate()
+): boolean => Boolean(document.validUntil) && document.validUntil < today;
+
+// "Valid 2024-01-01 to 2026-12-31", or open-ended
+export const describeValidity = (document: LibraryDocument): string => {
+  if (!document.validUntil) {
+    return document.validFrom
+      ? `Valid from ${document.validFrom}, no expiry`
+      : "No expiry recorded";
+  }
+  return document.validFrom
+    ? `Valid ${document.validFrom} to ${document.validUntil}`
+    : `Valid until ${document.validUntil}`;
+};
+
+export const libraryFileCounts = (
+  attachments: LibraryAttachments
+): Partial<Record<keyof FileData, number>> =>
+  Object.fromEntries(
+    Object.entries(attachments).map(([category, documents]) => [
+      category,
+      (documents || []).length,
+    ])
+  );
+
+export const libraryFileIds = (
+  attachments: LibraryAttachments
+): Partial<Record<keyof FileData, string[]>> =>
+  Object.fromEntries(
+    Object.entries(attachments)
+      .filter(([_, documents]) => (documents || []).length > 0)
+      .map(([category, documents]) => [
+        category,
+        (documents || []).map((document) => document.fileId),
+      ])
+  );
@@ -0,0 +1,76 @@
+import { DocumentQuery, DocumentSortField } from "../services/api";
+import { SubmissionStatus } from "../types/submission";
+import { isIsoDate } from "./dateRanges";
+import { statusLabels } from "./status";
+
+// Filters and sort order of the documents list, kept in the URL so a
+// filtered view can be shared as a link.
+export type DocumentFilters = Omit<DocumentQuery, "cursor" | "limit">;
+
+export const sortFields: Record<DocumentSortField, string> = {
+  createdAt: "Submission date",
+  tradeName: "Trade name",
+  quantity: "Quantity",
+  status: "Status",
+};
+
+export const DEFAULT_SORT: DocumentSortField = "createdAt";
+export const DEFAULT_ORDER = "desc";
+
+export const filtersFromSearchParams = (
+  params: URLSearchParams
+): DocumentFilters => {
+  const filters: DocumentFilters = {};
+
+  const search = params.get("search")?.trim();
+  if (search) filters.search = search;
+
+  const from = params.get("from");
+  if (from && isIsoDate(from)) filters.from = from;
+  const to = params.get("to");
+  if (to && isIsoDate(to)) filters.to = to;
+
+  const country = params.get("country")?.trim().toUpperCase();
+  if (country) filters.country = country;
+
+  const status = params.get("status");
+  if (status && status in statusLabels) {
+    filters.status = status as SubmissionStatus;
+  }
+
+  const sort = params.get("sort");
+  filters.sort =
+    sort && sort in sortFields ? (sort as DocumentSortField) : DEFAULT_SORT;
+  const order = params.get("order");
+  filters.order = order === "asc" || order === "desc" ? order : DEFAULT_ORDER;
+
+  return filters;
+};
+
+export const filtersToSearchParams = (
+  filters: DocumentFilters
+): URLSearchParams => {
+  const params = new URLSearchParams();
+  if (filters.search) params.set("search", filters.search);
+  if (filters.from) params.set("from", filters.from);
+  if (filters.to) params.set("to", filters.to);
+  if (filters.country) params.set("country", filters.country);
+  if (filters.status) params.set("status", filters.status);
+  // The default order is left out to keep shared links short
+  if (filters.sort && filters.sort !== DEFAULT_SORT) {
+    params.set("sort", filters.sort);
+  }
+  if (filters.order && filters.order !== DEFAULT_ORDER) {
+    params.set("order", filters.order);
+  }
+  return params;
+};
+
+export const hasActiveFilters = (filters: DocumentFilters): boolean =>
+  Boolean(
+    filters.search ||
+      filters.from ||
+      filters.to ||
+      filters.country ||
+      filters.status
+  );
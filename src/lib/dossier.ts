@@ -0,0 +1,463 @@
+import {
+  PDFDocument,
+  PDFFont,
+  PDFHexString,
+  PDFName,
+  PDFPage,
+  PDFRef,
+  StandardFonts,
+  rgb,
+} from "pdf-lib";
+import { Document } from "../types/submission";
+import { sniffFileKind } from "./fileType";
+import {
+  Geometry,
+  describeGeometry,
+  geometryAreaHectares,
+  geometryBounds,
+  getPolygons,
+  toGeometry,
+} from "./geo";
+import { formatParty } from "./parties";
+import { formatSpecies, parseSpecies } from "./species";
+import { describeCountryRegion, parseCountryRegion } from "./countries";
+import { riskTierFor, riskTierLabels } from "./countryRisk";
+import { getStatus, statusLabels } from "./status";
+import {
+  Section,
+  fieldsInSection,
+  fileIdsOf,
+  filesInSection,
+} from "./submissionSchema";
+
+// Builds one PDF per shipment for auditors: a cover with the submission's
+// details, the harvest area as a figure, a checklist of the document
+// categories and every uploaded PDF or image, bookmarked by category.
+
+const PAGE_WIDTH = 595.28; // A4 in points
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 50;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+
+// Headings as on the form's Review tab
+const fieldGroups: Array<[Section, string]> = [
+  ["Basic Details", "Basic Information"],
+  ["Location Info", "Location Details"],
+  ["Contact Details", "Contact Information"],
+];
+const fileSections: Section[] = [
+  "Transaction Documents",
+  "Legal Documents",
+  "Compliance",
+];
+
+export interface DossierProgress {
+  done: number;
+  total: number;
+}
+
+interface OutlineItem {
+  title: string;
+  pageIndex: number;
+  children?: OutlineItem[];
+}
+
+// The standard fonts only cover WinAnsi; anything else is replaced
+const printable = (text: string) =>
+  text
+    .replace(/[\u2018\u2019]/g, "'")
+    .replace(/[\u201C\u201D]/g, '"')
+    .replace(/[\u2013\u2014]/g, "-")
+    .replace(/[^\n\x20-\x7E\xA0-\xFF]/g, "?");
+
+const wrapText = (text: string, font: PDFFont, size: number, width: number) =>
+  printable(text)
+    .split("\n")
+    .flatMap((paragraph) => {
+      const lines: string[] = [];
+      let line = "";
+      paragraph.split(/\s+/).forEach((word) => {
+        const candidate = line ? `${line} ${word}` : word;
+        if (line && font.widthOfTextAtSize(candidate, size) > width) {
+          lines.push(line);
+          line = word;
+        } else {
+          line = candidate;
+        }
+      });
+      lines.push(line);
+      return lines;
+    });
+
+// Writes flowing text top to bottom, starting new pages as needed
+const createWriter = (pdf: PDFDocument, font: PDFFont, bold: PDFFont) => {
+  let page: PDFPage = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y - height < MARGIN) {
+      page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+      y = PAGE_HEIGHT - MARGIN;
+    }
+  };
+
+  const text = (
+    value: string,
+    { size = 10, useBold = false, indent = 0, gap = 4 } = {}
+  ) => {
+    const lineFont = useBold ? bold : font;
+    wrapText(value, lineFont, size, CONTENT_WIDTH - indent).forEach((line) => {
+      ensureSpace(size + 2);
+      y -= size + 2;
+      page.drawText(line, { x: MARGIN + indent, y, size, font: lineFont });
+    });
+    y -= gap;
+  };
+
+  const space = (height: number) => {
+    y -= height;
+  };
+
+  const block = (height: number) => {
+    ensureSpace(height);
+    const top = y;
+    y -= height;
+    return { page, top };
+  };
+
+  return { text, space, block };
+};
+
+const drawGeometry = (
+  page: PDFPage,
+  geometry: Geometry,
+  top: number,
+  height: number
+) => {
+  const padding = 16;
+  page.drawRectangle({
+    x: MARGIN,
+    y: top - height,
+    width: CONTENT_WIDTH,
+    height,
+    borderColor: rgb(0.8, 0.82, 0.86),
+    borderWidth: 1,
+    color: rgb(0.97, 0.98, 0.99),
+  });
+
+  // Equirectangular projection, corrected for latitude so plots keep their shape
+  const bounds = geometryBounds(geometry);
+  const midLat = (bounds.minLat + bounds.maxLat) / 2;
+  const lonScale = Math.cos((midLat * Math.PI) / 180);
+  const spanX = Math.max((bounds.maxLon - bounds.minLon) * lonScale, 1e-6);
+  const spanY = Math.max(bounds.maxLat - bounds.minLat, 1e-6);
+  const scale = Math.min(
+    (CONTENT_WIDTH - 2 * padding) / spanX,
+    (height - 2 * padding) / spanY
+  );
+  const offsetX = (CONTENT_WIDTH - spanX * scale) / 2;
+  const offsetY = (height - spanY * scale) / 2;
+  // SVG coordinates relative to the figure's top-left corner
+  const project = ([lon, lat]: number[]) =>
+    `${(offsetX + (lon - bounds.minLon) * lonScale * scale).toFixed(2)} ${(
+      offsetY +
+      (bounds.maxLat - lat) * scale
+    ).toFixed(2)}`;
+
+  if (geometry.type === "Point") {
+    const [x, y] = project(geometry.coordinates).split(" ").map(Number);
+    page.drawCircle({
+      x: MARGIN + x,
+      y: top - y,
+      size: 4,
+      color: rgb(0.09, 0.5, 0.24),
+    });
+    return;
+  }
+
+  getPolygons(geometry).forEach((rings) => {
+    const path = rings
+      .map((ring) => `M ${ring.map(project).join(" L ")} Z`)
+      .join(" ");
+    page.drawSvgPath(path, {
+      x: MARGIN,
+      y: top,
+      color: rgb(0.13, 0.77, 0.37),
+      opacity: 0.35,
+      borderColor: rgb(0.09, 0.5, 0.24),
+      borderWidth: 1.5,
+    });
+  });
+};
+
+const addOutline = (pdf: PDFDocument, items: OutlineItem[]) => {
+  const { context } = pdf;
+  const pageRefs = pdf.getPages().map((page) => page.ref);
+  const outlinesRef = context.nextRef();
+
+  const addItems = (entries: OutlineItem[], parent: PDFRef): PDFRef[] => {
+    const refs = entries.map(() => context.nextRef());
+    entries.forEach((entry, index) => {
+      const children = entry.children?.length
+        ? addItems(entry.children, refs[index])
+        : [];
+      const dict = context.obj({
+        Title: PDFHexString.fromText(entry.title),
+        Parent: parent,
+        Dest: [pageRefs[entry.pageIndex], "XYZ", null, null, null],
+      });
+      if (index > 0) dict.set(PDFName.of("Prev"), refs[index - 1]);
+      if (index < refs.length - 1) {
+        dict.set(PDFName.of("Next"), refs[index + 1]);
+      }
+      if (children.length > 0) {
+        dict.set(PDFName.of("First"), children[0]);
+        dict.set(PDFName.of("Last"), children[children.length - 1]);
+        // Negative: categories start collapsed
+        dict.set(PDFName.of("Count"), context.obj(-children.length));
+      }
+      context.assign(refs[index], dict);
+    });
+    return refs;
+  };
+
+  const topLevel = addItems(items, outlinesRef);
+  context.assign(
+    outlinesRef,
+    context.obj({
+      Type: "Outlines",
+      First: topLevel[0],
+      Last: topLevel[topLevel.length - 1],
+      Count: topLevel.length,
+    })
+  );
+  pdf.catalog.set(PDFName.of("Outlines"), outlinesRef);
+  pdf.catalog.set(PDFName.of("PageMode"), PDFName.of("UseOutlines"));
+};
+
+// A page standing in for a file that can't be merged, e.g. a Word document
+const addPlaceholderPage = (
+  pdf: PDFDocument,
+  font: PDFFont,
+  bold: PDFFont,
+  title: string,
+  message: string
+) => {
+  const page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  page.drawText(printable(title), {
+    x: MARGIN,
+    y: PAGE_HEIGHT - MARGIN - 14,
+    size: 14,
+    font: bold,
+  });
+  wrapText(message, font, 11, CONTENT_WIDTH).forEach((line, index) =>
+    page.drawText(line, {
+      x: MARGIN,
+      y: PAGE_HEIGHT - MARGIN - 40 - index * 14,
+      size: 11,
+      font,
+    })
+  );
+};
+
+const appendFile = async (
+  pdf: PDFDocument,
+  font: PDFFont,
+  bold: PDFFont,
+  blob: Blob,
+  title: string
+) => {
+  const kind = await sniffFileKind(blob);
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+
+  if (kind === "pdf") {
+    try {
+      const source = await PDFDocument.load(bytes);
+      const pages = await pdf.copyPages(source, source.getPageIndices());
+      if (pages.length > 0) {
+        pages.forEach((page) => pdf.addPage(page));
+        return;
+      }
+    } catch (error) {
+      console.error("Could not merge PDF into dossier:", error);
+    }
+    addPlaceholderPage(
+      pdf,
+      font,
+      bold,
+      title,
+      "This PDF is protected or damaged and could not be included. It is available from the portal."
+    );
+    return;
+  }
+
+  if (kind === "png" || kind === "jpeg") {
+    const image =
+      kind === "png" ? await pdf.embedPng(bytes) : await pdf.embedJpg(bytes);
+    const page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    const { width, height } = image.scaleToFit(
+      CONTENT_WIDTH,
+      PAGE_HEIGHT - 2 * MARGIN
+    );
+    page.drawImage(image, {
+      x: (PAGE_WIDTH - width) / 2,
+      y: (PAGE_HEIGHT - height) / 2,
+      width,
+      height,
+    });
+    return;
+  }
+
+  addPlaceholderPage(
+    pdf,
+    font,
+    bold,
+    title,
+    "Word documents can't be merged into the dossier. Download this file from the portal."
+  );
+};
+
+export const generateDossier = async (
+  document: Document,
+  loadFile: (fileId: string) => Promise<Blob>,
+  onProgress?: (progress: DossierProgress) => void
+): Promise<Uint8Array> => {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(`Dossier - ${document.tradeName || document._id}`);
+  pdf.setSubject("Pulp supply chain documentation");
+  pdf.setCreationDate(new Date());
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+  const outline: OutlineItem[] = [
+    { title: "Submission details", pageIndex: 0 },
+  ];
+
+  // Cover
+  const writer = createWriter(pdf, font, bold);
+  writer.text(document.tradeName || "Untitled submission", {
+    size: 20,
+    useBold: true,
+    gap: 6,
+  });
+  writer.text(
+    `Submission ${document._id} - ${
+      statusLabels[getStatus(document.status)]
+    } - submitted ${new Date(document.createdAt).toLocaleDateString()}`,
+    { size: 10, gap: 16 }
+  );
+
+  fieldGroups.forEach(([section, heading]) => {
+    writer.text(heading, { size: 14, useBold: true, gap: 6 });
+    fieldsInSection(section).forEach((field) => {
+      const raw = document[field.name];
+      let value: string;
+      if (field.name === "geolocationPolygon") {
+        const geometry = toGeometry(raw);
+        value = geometry
+          ? `${describeGeometry(geometry)}, ${geometryAreaHectares(
+              geometry
+            ).toFixed(2)} ha (see figure)`
+          : raw
+          ? String(raw)
+          : "";
+      } else if (field.format === "party") {
+        value = formatParty(raw).join("\n");
+      } else if (field.format === "species") {
+        value = parseSpecies(raw).map(formatSpecies).join("\n");
+      } else if (field.format === "countryRegion") {
+        const parsed = parseCountryRegion(String(raw || ""));
+        value = parsed
+          ? `${describeCountryRegion(String(raw))} (EUDR: ${
+              riskTierLabels[riskTierFor(parsed.country)]
+            })`
+          : raw
+          ? String(raw)
+          : "";
+      } else {
+        value = raw ? String(raw) : "";
+      }
+      if (field.name === "quantity" && value) value = `${value} MT`;
+      if (field.name === "plotAreaHectares" && value) value = `${value} ha`;
+      writer.text(field.label, { size: 9, useBold: true, gap: 0 });
+      writer.text(value || "Not provided", { size: 10, indent: 8, gap: 6 });
+    });
+    writer.space(10);
+  });
+
+  const geometry = toGeometry(document.geolocationPolygon);
+  if (geometry) {
+    writer.text("Figure 1: Harvest area", { size: 12, useBold: true });
+    const { page, top } = writer.block(320);
+    drawGeometry(page, geometry, top, 300);
+  }
+
+  // Checklist
+  const checklistStart = pdf.getPageCount();
+  const checklist = createWriter(pdf, font, bold);
+  outline.push({ title: "Document checklist", pageIndex: checklistStart });
+  checklist.text("Document checklist", { size: 16, useBold: true, gap: 10 });
+  fileSections.forEach((section) => {
+    checklist.text(section, { size: 12, useBold: true, gap: 4 });
+    filesInSection(section).forEach((file) => {
+      const count = fileIdsOf(document.files?.[file.name]).length;
+      const state =
+        count > 0
+          ? `Present (${count} file${count === 1 ? "" : "s"})`
+          : file.required
+          ? "MISSING (required)"
+          : "Not provided";
+      checklist.text(`${file.label}: ${state}`, { size: 10, indent: 8 });
+    });
+    checklist.space(8);
+  });
+
+  // Attachments, in section order
+  const attachments = fileSections.flatMap((section) =>
+    filesInSection(section).map((file) => ({
+      label: file.label,
+      fileIds: fileIdsOf(document.files?.[file.name]),
+    }))
+  );
+  const total = attachments.reduce((sum, a) => sum + a.fileIds.length, 0);
+  let done = 0;
+  onProgress?.({ done, total });
+
+  for (const attachment of attachments) {
+    if (attachment.fileIds.length === 0) continue;
+    const { label, fileIds } = attachment;
+    const children: OutlineItem[] = [];
+    const category: OutlineItem = {
+      title: label,
+      pageIndex: pdf.getPageCount(),
+      children,
+    };
+    for (let index = 0; index < fileIds.length; index++) {
+      const fileId = fileIds[index];
+      const title =
+        fileIds.length > 1
+          ? `${label} (${index + 1} of ${fileIds.length})`
+          : label;
+      // A category with a single file needs no entry per file
+      if (fileIds.length > 1) {
+        children.push({ title, pageIndex: pdf.getPageCount() });
+      }
+      try {
+        await appendFile(pdf, font, bold, await loadFile(fileId), title);
+      } catch (error) {
+        console.error("Could not add file to dossier:", error);
+        addPlaceholderPage(
+          pdf,
+          font,
+          bold,
+          title,
+          "This file could not be downloaded while the dossier was generated."
+        );
+      }
+      onProgress?.({ done: ++done, total });
+    }
+    outline.push(category);
+  }
+
+  addOutline(pdf, outline);
+  return pdf.save();
+};
@@ -0,0 +1,11 @@
+// Saves generated content through a temporary object URL
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = window.URL.createObjectURL(blob);
+  const a = window.document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  window.document.body.appendChild(a);
+  a.click();
+  window.URL.revokeObjectURL(url);
+  window.document.body.removeChild(a);
+};
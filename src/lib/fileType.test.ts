@@ -0,0 +1,62 @@
+/**
+ * @jest-environment node
+ */
+import { sniffFileKind, withExtension } from "./fileType";
+import { ascii, zipArchive } from "./__fixtures__/zipArchive";
+
+const PDF = [0x25, 0x50, 0x44, 0x46, 0x2d, 0x31, 0x2e, 0x37];
+const PNG = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const JPEG = [0xff, 0xd8, 0xff, 0xe0];
+const OLE = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1];
+
+const blob = (bytes: number[]) => new Blob([new Uint8Array(bytes)]);
+
+describe("sniffFileKind", () => {
+  it("recognizes PDFs, images and legacy Word files by their first bytes", async () => {
+    expect(await sniffFileKind(blob(PDF))).toBe("pdf");
+    expect(await sniffFileKind(blob(PNG))).toBe("png");
+    expect(await sniffFileKind(blob(JPEG))).toBe("jpeg");
+    expect(await sniffFileKind(blob(OLE))).toBe("doc");
+  });
+
+  it("recognizes a ZIP with Word content as docx", async () => {
+    const docx = zipArchive(["[Content_Types].xml", "word/document.xml"]);
+    expect(await sniffFileKind(blob(docx))).toBe("docx");
+  });
+
+  it("finds the central directory behind an archive comment", async () => {
+    const docx = zipArchive(["word/document.xml"], "Saved by an editor");
+    expect(await sniffFileKind(blob(docx))).toBe("docx");
+  });
+
+  it("doesn't take other ZIP files for Word documents", async () => {
+    const xlsx = zipArchive(["[Content_Types].xml", "xl/workbook.xml"]);
+    const pptx = zipArchive(["ppt/presentation.xml"]);
+    const archive = zipArchive(["report.txt"]);
+    expect(await sniffFileKind(blob(xlsx))).toBe("unknown");
+    expect(await sniffFileKind(blob(pptx))).toBe("unknown");
+    expect(await sniffFileKind(blob(archive))).toBe("unknown");
+  });
+
+  it("reports truncated archives and other content as unknown", async () => {
+    const docx = zipArchive(["word/document.xml"]);
+    expect(await sniffFileKind(blob(docx.slice(0, 40)))).toBe("unknown");
+    expect(await sniffFileKind(blob(ascii("plain text")))).toBe("unknown");
+    expect(await sniffFileKind(blob([]))).toBe("unknown");
+  });
+});
+
+describe("withExtension", () => {
+  it("adds the extension of the detected kind", () => {
+    expect(withExtension("Supplier Invoice", "pdf")).toBe(
+      "Supplier Invoice.pdf"
+    );
+    expect(withExtension("Map", "jpeg")).toBe("Map.jpg");
+  });
+
+  it("keeps names that already have it", () => {
+    expect(withExtension("invoice.PDF", "pdf")).toBe("invoice.PDF");
+    expect(withExtension("photo.jpeg", "jpeg")).toBe("photo.jpeg");
+    expect(withExtension("notes", "unknown")).toBe("notes");
+  });
+});
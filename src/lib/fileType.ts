@@ -0,0 +1,101 @@
+// Identifies files by their leading bytes rather than their name or the
+// browser-reported MIME type, both of which are easy to get wrong.
+
+export type FileKind = "pdf" | "png" | "jpeg" | "docx" | "doc" | "unknown";
+
+const startsWith = (bytes: Uint8Array, signature: number[]) =>
+  signature.every((byte, index) => bytes[index] === byte);
+
+const PDF = [0x25, 0x50, 0x44, 0x46, 0x2d]; // "%PDF-"
+const PNG = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const JPEG = [0xff, 0xd8, 0xff];
+const ZIP = [0x50, 0x4b, 0x03, 0x04]; // DOCX is a ZIP container
+const OLE = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]; // legacy .doc
+
+// ZIP end-of-central-directory record: fixed 22 bytes plus a comment of up
+// to 64 KiB
+const EOCD_SIGNATURE = 0x06054b50;
+const EOCD_MAX_SIZE = 22 + 0xffff;
+const CENTRAL_ENTRY_SIGNATURE = 0x02014b50;
+
+// Names of the entries in a ZIP archive, read from its central directory;
+// empty when the archive can't be read
+const zipEntryNames = async (blob: Blob): Promise<string[]> => {
+  const tailStart = Math.max(0, blob.size - EOCD_MAX_SIZE);
+  const tail = new DataView(await blob.slice(tailStart).arrayBuffer());
+  let eocd = -1;
+  for (let offset = tail.byteLength - 22; offset >= 0; offset--) {
+    if (tail.getUint32(offset, true) === EOCD_SIGNATURE) {
+      eocd = offset;
+      break;
+    }
+  }
+  if (eocd < 0) return [];
+
+  const directorySize = tail.getUint32(eocd + 12, true);
+  const directoryOffset = tail.getUint32(eocd + 16, true);
+  const directory = new DataView(
+    await blob
+      .slice(directoryOffset, directoryOffset + directorySize)
+      .arrayBuffer()
+  );
+  const names: string[] = [];
+  let offset = 0;
+  while (
+    offset + 46 <= directory.byteLength &&
+    directory.getUint32(offset, true) === CENTRAL_ENTRY_SIGNATURE
+  ) {
+    const nameLength = directory.getUint16(offset + 28, true);
+    const extraLength = directory.getUint16(offset + 30, true);
+    const commentLength = directory.getUint16(offset + 32, true);
+    const name = new Uint8Array(
+      directory.buffer,
+      directory.byteOffset + offset + 46,
+      Math.min(nameLength, directory.byteLength - offset - 46)
+    );
+    names.push(String.fromCharCode.apply(null, Array.from(name)));
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return names;
+};
+
+// Spreadsheets, presentations and plain archives are ZIP files too; a Word
+// document keeps its content under word/
+const isWordArchive = async (blob: Blob) =>
+  (await zipEntryNames(blob)).some((name) => name.startsWith("word/"));
+
+export const sniffFileKind = async (blob: Blob): Promise<FileKind> => {
+  const bytes = new Uint8Array(await blob.slice(0, 8).arrayBuffer());
+  if (startsWith(bytes, PDF)) return "pdf";
+  if (startsWith(bytes, PNG)) return "png";
+  if (startsWith(bytes, JPEG)) return "jpeg";
+  if (startsWith(bytes, ZIP)) {
+    return (await isWordArchive(blob)) ? "docx" : "unknown";
+  }
+  if (startsWith(bytes, OLE)) return "doc";
+  return "unknown";
+};
+
+const extensions: Record<FileKind, string> = {
+  pdf: "pdf",
+  png: "png",
+  jpeg: "jpg",
+  docx: "docx",
+  doc: "doc",
+  unknown: "",
+};
+
+// Adds the extension of the detected kind to names that lack it, such as the
+// category labels files are shown under
+export const withExtension = (fileName: string, kind: FileKind): string => {
+  const extension = extensions[kind];
+  if (!extension) return fileName;
+  const lower = fileName.toLowerCase();
+  const hasExtension =
+    lower.endsWith(`.${extension}`) ||
+    (kind === "jpeg" && lower.endsWith(".jpeg"));
+  return hasExtension ? fileName : `${fileName}.${extension}`;
+};
+
+export const isImageKind = (kind: FileKind) =>
+  kind === "png" || kind === "jpeg";
@@ -0,0 +1,95 @@
+/**
+ * @jest-environment node
+ */
+import { formatFileSize, hashFile, validateFile } from "./fileValidation";
+import { zipArchive } from "./__fixtures__/zipArchive";
+
+// pdf.js needs a browser worker, so PDF parsing is stubbed
+jest.mock("./pdf", () => ({
+  loadPdf: async (blob: Blob) => {
+    const text = await blob.text();
+    if (text.includes("/Encrypt")) {
+      throw Object.assign(new Error("password"), { name: "PasswordException" });
+    }
+    if (!text.includes("%%EOF")) throw new Error("damaged");
+    return { numPages: text.includes("/Page ") ? 1 : 0, destroy: () => {} };
+  },
+  isPasswordError: (error: { name?: string }) =>
+    error?.name === "PasswordException",
+}));
+
+const file = (content: string | number[], name: string) =>
+  new File(
+    [typeof content === "string" ? content : new Uint8Array(content)],
+    name
+  );
+
+const PDF = "%PDF-1.7\n1 0 obj << /Type /Page >>\n%%EOF";
+const PNG = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+describe("validateFile", () => {
+  it("accepts files whose content matches their extension", async () => {
+    expect(await validateFile(file(PDF, "invoice.pdf"), 10)).toBeNull();
+    expect(await validateFile(file(PNG, "map.PNG"), 10)).toBeNull();
+    expect(
+      await validateFile(
+        file(zipArchive(["word/document.xml"]), "policy.docx"),
+        10
+      )
+    ).toBeNull();
+  });
+
+  it("rejects empty and oversized files", async () => {
+    expect(await validateFile(file("", "empty.pdf"), 10)).toBe(
+      "empty.pdf is empty"
+    );
+    const large = file(new Array(2 * 1024 * 1024).fill(0), "scan.pdf");
+    expect(await validateFile(large, 1)).toBe(
+      "scan.pdf is 2.0 MB; the limit is 1 MB"
+    );
+  });
+
+  it("rejects content that doesn't match the extension", async () => {
+    expect(await validateFile(file(PNG, "invoice.pdf"), 10)).toBe(
+      "invoice.pdf is named like a PDF but contains a PNG image"
+    );
+    expect(
+      await validateFile(
+        file(zipArchive(["xl/workbook.xml"]), "sheet.docx"),
+        10
+      )
+    ).toBe("sheet.docx is not a PDF, JPG, PNG or Word document");
+    expect(await validateFile(file("hello", "notes.txt"), 10)).toBe(
+      "notes.txt is not a PDF, JPG, PNG or Word document"
+    );
+  });
+
+  it("rejects PDFs that can't be opened", async () => {
+    expect(
+      await validateFile(file("%PDF-1.7 /Encrypt %%EOF", "locked.pdf"), 10)
+    ).toBe("locked.pdf is password protected. Upload an unprotected copy.");
+    expect(await validateFile(file("%PDF-1.7 broken", "broken.pdf"), 10)).toBe(
+      "broken.pdf is damaged and could not be read as a PDF"
+    );
+    expect(await validateFile(file("%PDF-1.7 %%EOF", "blank.pdf"), 10)).toBe(
+      "blank.pdf has no pages"
+    );
+  });
+});
+
+describe("formatFileSize", () => {
+  it("shows kilobytes below a megabyte", () => {
+    expect(formatFileSize(100)).toBe("1 KB");
+    expect(formatFileSize(300 * 1024)).toBe("300 KB");
+    expect(formatFileSize(5.25 * 1024 * 1024)).toBe("5.3 MB");
+  });
+});
+
+describe("hashFile", () => {
+  it("gives the same hash for the same content only", async () => {
+    const a = await hashFile(file("same", "a.pdf"));
+    expect(a).toMatch(/^[0-9a-f]{64}$/);
+    expect(await hashFile(file("same", "b.pdf"))).toBe(a);
+    expect(await hashFile(file("other", "a.pdf"))).not.toBe(a);
+  });
+});
@@ -0,0 +1,83 @@
+import { FileKind, sniffFileKind } from "./fileType";
+import { isPasswordError, loadPdf } from "./pdf";
+
+// Checks run on every selected file before it is accepted for upload. The
+// `accept` attribute on the input is only a hint to the file picker.
+
+const kindsByExtension: Record<string, FileKind> = {
+  pdf: "pdf",
+  png: "png",
+  jpg: "jpeg",
+  jpeg: "jpeg",
+  docx: "docx",
+  doc: "doc",
+};
+
+const kindNames: Record<FileKind, string> = {
+  pdf: "a PDF",
+  png: "a PNG image",
+  jpeg: "a JPEG image",
+  docx: "a Word document",
+  doc: "a Word document",
+  unknown: "an unsupported file",
+};
+
+const extensionOf = (fileName: string) => {
+  const dot = fileName.lastIndexOf(".");
+  return dot === -1 ? "" : fileName.slice(dot + 1).toLowerCase();
+};
+
+export const formatFileSize = (bytes: number): string =>
+  bytes >= 1024 * 1024
+    ? `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+    : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+const checkPdf = async (file: File): Promise<string | null> => {
+  try {
+    const pdf = await loadPdf(file);
+    const pageCount = pdf.numPages;
+    pdf.destroy();
+    return pageCount === 0 ? `${file.name} has no pages` : null;
+  } catch (error) {
+    return isPasswordError(error)
+      ? `${file.name} is password protected. Upload an unprotected copy.`
+      : `${file.name} is damaged and could not be read as a PDF`;
+  }
+};
+
+// Returns a message describing why the file can't be uploaded, or null
+export const validateFile = async (
+  file: File,
+  maxSizeMb: number
+): Promise<string | null> => {
+  if (file.size === 0) return `${file.name} is empty`;
+  if (file.size > maxSizeMb * 1024 * 1024) {
+    return `${file.name} is ${formatFileSize(
+      file.size
+    )}; the limit is ${maxSizeMb} MB`;
+  }
+
+  const kind = await sniffFileKind(file);
+  if (kind === "unknown") {
+    return `${file.name} is not a PDF, JPG, PNG or Word document`;
+  }
+  const claimed = kindsByExtension[extensionOf(file.name)];
+  if (claimed !== kind) {
+    return `${file.name} is named like ${
+      claimed ? kindNames[claimed] : "an unsupported file"
+    } but contains ${kindNames[kind]}`;
+  }
+
+  return kind === "pdf" ? checkPdf(file) : null;
+};
+
+// SHA-256 of the file contents, used to spot the same file attached twice
+export const hashFile = async (file: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    await file.arrayBuffer()
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+};
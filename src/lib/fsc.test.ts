@@ -0,0 +1,109 @@
+import {
+  checkFscCode,
+  indexFscRegistry,
+  lookupFscCode,
+  normalizeFscCode,
+  parseCsv,
+  parseFscRegistry,
+} from "./fsc";
+
+describe("parseCsv", () => {
+  it("splits rows and cells", () => {
+    expect(parseCsv("a,b\r\n1,2\n3,4")).toEqual([
+      ["a", "b"],
+      ["1", "2"],
+      ["3", "4"],
+    ]);
+  });
+
+  it("uses the delimiter of the header line", () => {
+    expect(parseCsv("a;b\n1,5;2")).toEqual([
+      ["a", "b"],
+      ["1,5", "2"],
+    ]);
+  });
+
+  it("keeps delimiters, line breaks and escaped quotes in quoted cells", () => {
+    expect(parseCsv('name,note\n"Acme, Ltd","line\nbreak ""quoted"""')).toEqual(
+      [
+        ["name", "note"],
+        ["Acme, Ltd", 'line\nbreak "quoted"'],
+      ]
+    );
+  });
+
+  it("drops blank rows and keeps empty cells", () => {
+    expect(parseCsv("a,b\n\n,\n1,\n")).toEqual([
+      ["a", "b"],
+      ["1", ""],
+    ]);
+  });
+});
+
+describe("normalizeFscCode", () => {
+  it("upper-cases and removes spacing around hyphens", () => {
+    expect(normalizeFscCode(" scs - coc-004563 ")).toBe("SCS-COC-004563");
+  });
+});
+
+describe("checkFscCode", () => {
+  it("accepts certificate codes of an accepted type", () => {
+    expect(checkFscCode("SCS-COC-004563", ["COC"])).toBeNull();
+    expect(checkFscCode("nc-cw/fm-000123", ["FM", "CW/FM"])).toBeNull();
+  });
+
+  it("accepts licence codes for any category", () => {
+    expect(checkFscCode("FSC-C012345", ["FM"])).toBeNull();
+  });
+
+  it("rejects other certificate types", () => {
+    expect(checkFscCode("SCS-FM-004563", ["COC"])).toBe(
+      "Expected a COC certificate, not FM"
+    );
+  });
+
+  it("rejects malformed codes", () => {
+    const error = 'Enter an FSC code such as "SCS-COC-000000" or "FSC-C000000"';
+    expect(checkFscCode("SCS-COC-45", ["COC"])).toBe(error);
+    expect(checkFscCode("FSC-012345", ["COC"])).toBe(error);
+  });
+});
+
+describe("parseFscRegistry", () => {
+  const csv = [
+    "\uFEFFCertificate Code;License Code;Certificate Holder;Status;Scope;Expiry Date",
+    "scs-coc-004563;FSC-C012345;Acme Pulp;Valid;COC;2027-01-31",
+    "SCS-COC-000001;FSC-C012345;Acme Pulp;Expired;COC;2021-01-31",
+    "SCS-COC-000002;;Unknown;Pending;COC;",
+    ";;No code;Valid;;",
+  ].join("\n");
+
+  it("reads the export's columns and skips unusable rows", () => {
+    const { entries, skipped } = parseFscRegistry(csv);
+    expect(skipped).toBe(2);
+    expect(entries[0]).toEqual({
+      certificateCode: "SCS-COC-004563",
+      licenseCode: "FSC-C012345",
+      holder: "Acme Pulp",
+      status: "valid",
+      scope: "COC",
+      expiryDate: "2027-01-31",
+    });
+  });
+
+  it("requires the code and status columns", () => {
+    expect(() => parseFscRegistry("Holder,Scope\nAcme,COC")).toThrow(
+      /"Certificate Code" and "Status"/
+    );
+  });
+
+  it("looks up entries by certificate or licence code", () => {
+    const index = indexFscRegistry(parseFscRegistry(csv).entries);
+    expect(lookupFscCode(index, "scs-coc-000001")?.status).toBe("expired");
+    // The valid certificate wins for the licence code
+    expect(lookupFscCode(index, " fsc-c012345")?.certificateCode).toBe(
+      "SCS-COC-004563"
+    );
+    expect(lookupFscCode(index, "SCS-COC-999999")).toBeUndefined();
+  });
+});
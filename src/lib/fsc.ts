@@ -0,0 +1,194 @@
+// FSC certificate codes name the certification body, the certificate type and
+// a serial, e.g. "SCS-COC-004563" or "NC-CW/FM-000123". Licence codes identify
+// the holder's trademark licence, e.g. "FSC-C012345".
+
+export type FscStatus =
+  | "valid"
+  | "suspended"
+  | "terminated"
+  | "expired"
+  | "withdrawn";
+
+export interface FscRegistryEntry {
+  certificateCode: string;
+  licenseCode: string;
+  holder: string;
+  status: FscStatus;
+  scope: string;
+  expiryDate: string;
+}
+
+const CERTIFICATE_CODE = /^[A-Z]{2,5}-([A-Z]+(?:\/[A-Z]+)?)-\d{6}$/;
+const LICENSE_CODE = /^FSC-C\d{6}$/;
+
+export const normalizeFscCode = (code: string) =>
+  code
+    .trim()
+    .toUpperCase()
+    .replace(/\s*-\s*/g, "-");
+
+// Checks the code against the certificate types accepted for an upload
+// category; licence codes are accepted for any category
+export const checkFscCode = (
+  code: string,
+  acceptedTypes: string[]
+): string | null => {
+  const normalized = normalizeFscCode(code);
+  if (LICENSE_CODE.test(normalized)) return null;
+  const match = normalized.match(CERTIFICATE_CODE);
+  if (!match) {
+    return 'Enter an FSC code such as "SCS-COC-000000" or "FSC-C000000"';
+  }
+  if (!acceptedTypes.includes(match[1])) {
+    return `Expected a ${acceptedTypes.join(", ")} certificate, not ${
+      match[1]
+    }`;
+  }
+  return null;
+};
+
+export const fscStatusLabels: Record<FscStatus, string> = {
+  valid: "Valid",
+  suspended: "Suspended",
+  terminated: "Terminated",
+  expired: "Expired",
+  withdrawn: "Withdrawn",
+};
+
+export const fscStatusStyles: Record<FscStatus, string> = {
+  valid: "bg-green-100 text-green-800",
+  suspended: "bg-amber-100 text-amber-800",
+  terminated: "bg-red-100 text-red-800",
+  expired: "bg-red-100 text-red-800",
+  withdrawn: "bg-red-100 text-red-800",
+};
+
+// Splits CSV text into rows, honouring quoted cells; the delimiter is "," or
+// ";" depending on which the header line uses
+export const parseCsv = (text: string): string[][] => {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const delimiter =
+    firstLine.split(";").length > firstLine.split(",").length ? ";" : ",";
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((value) => value.trim()));
+};
+
+// Header names used by exports of the FSC public certificate database
+const columnAliases: Record<keyof FscRegistryEntry, string[]> = {
+  certificateCode: ["certificate code", "certificate number", "code"],
+  licenseCode: ["license code", "licence code", "trademark license code"],
+  holder: [
+    "certificate holder",
+    "certificate holder name",
+    "organization name",
+    "organisation name",
+  ],
+  status: ["status", "certificate status"],
+  scope: ["scope", "certificate scope", "product scope", "certificate type"],
+  expiryDate: ["expiry date", "expiration date", "valid until"],
+};
+
+const toStatus = (value: string): FscStatus | null => {
+  const status = value.trim().toLowerCase();
+  return status in fscStatusLabels ? (status as FscStatus) : null;
+};
+
+export interface FscImportResult {
+  entries: FscRegistryEntry[];
+  // Rows without a recognisable code or status
+  skipped: number;
+}
+
+export const parseFscRegistry = (text: string): FscImportResult => {
+  const [header = [], ...rows] = parseCsv(text.replace(/^\uFEFF/, ""));
+  const names = header.map((name) => name.trim().toLowerCase());
+  const columns = Object.fromEntries(
+    (Object.keys(columnAliases) as Array<keyof FscRegistryEntry>).map(
+      (field) => [
+        field,
+        names.findIndex((name) => columnAliases[field].includes(name)),
+      ]
+    )
+  ) as Record<keyof FscRegistryEntry, number>;
+  if (columns.certificateCode < 0 || columns.status < 0) {
+    throw new Error(
+      'The CSV needs "Certificate Code" and "Status" columns from the FSC certificate database export'
+    );
+  }
+
+  const cell = (cells: string[], field: keyof FscRegistryEntry) =>
+    columns[field] < 0 ? "" : (cells[columns[field]] || "").trim();
+
+  const entries: FscRegistryEntry[] = [];
+  rows.forEach((cells) => {
+    const status = toStatus(cell(cells, "status"));
+    const certificateCode = normalizeFscCode(cell(cells, "certificateCode"));
+    if (!status || !certificateCode) return;
+    entries.push({
+      certificateCode,
+      licenseCode: normalizeFscCode(cell(cells, "licenseCode")),
+      holder: cell(cells, "holder"),
+      status,
+      scope: cell(cells, "scope"),
+      expiryDate: cell(cells, "expiryDate"),
+    });
+  });
+  return { entries, skipped: rows.length - entries.length };
+};
+
+export type FscRegistryIndex = Record<string, FscRegistryEntry>;
+
+// Entries by certificate code and by licence code. A licence can outlive
+// several certificates, so a valid certificate wins over older ones.
+export const indexFscRegistry = (
+  entries: FscRegistryEntry[]
+): FscRegistryIndex => {
+  const index: FscRegistryIndex = {};
+  entries.forEach((entry) => {
+    index[entry.certificateCode] = entry;
+    if (!entry.licenseCode) return;
+    const current = index[entry.licenseCode];
+    if (!current || current.status !== "valid") {
+      index[entry.licenseCode] = entry;
+    }
+  });
+  return index;
+};
+
+export const lookupFscCode = (
+  index: FscRegistryIndex,
+  code: string
+): FscRegistryEntry | undefined => index[normalizeFscCode(code)];
@@ -0,0 +1,211 @@
+import {
+  Geometry,
+  geometryAreaHectares,
+  parseGeolocation,
+  validateGeometry,
+} from "./geo";
+
+const square = (x: number, y: number, size: number) => [
+  [x, y],
+  [x + size, y],
+  [x + size, y + size],
+  [x, y + size],
+  [x, y],
+];
+
+const polygon = (...rings: number[][][]): Geometry => ({
+  type: "Polygon",
+  coordinates: rings as [number, number][][],
+});
+
+describe("parseGeolocation", () => {
+  describe("GeoJSON", () => {
+    it("parses a polygon and orients the outer ring counter-clockwise", () => {
+      const clockwise = [
+        [10, 0],
+        [10, 1],
+        [11, 1],
+        [11, 0],
+        [10, 0],
+      ];
+      const result = parseGeolocation(
+        JSON.stringify({ type: "Polygon", coordinates: [clockwise] })
+      );
+      expect(result.format).toBe("geojson");
+      expect(result.errors).toEqual([]);
+      expect(result.geometry).toEqual({
+        type: "Polygon",
+        coordinates: [[...clockwise].reverse()],
+      });
+    });
+
+    it("unwraps features and merges polygons of a collection", () => {
+      const result = parseGeolocation(
+        JSON.stringify({
+          type: "FeatureCollection",
+          features: [
+            {
+              type: "Feature",
+              geometry: { type: "Polygon", coordinates: [square(0, 0, 1)] },
+            },
+            {
+              type: "Feature",
+              geometry: { type: "Polygon", coordinates: [square(2, 0, 1)] },
+            },
+          ],
+        })
+      );
+      expect(result.geometry?.type).toBe("MultiPolygon");
+      expect(result.geometry?.coordinates).toHaveLength(2);
+    });
+
+    it("drops altitude from positions", () => {
+      const result = parseGeolocation(
+        '{"type": "Point", "coordinates": [101.5, 2.25, 40]}'
+      );
+      expect(result.geometry).toEqual({
+        type: "Point",
+        coordinates: [101.5, 2.25],
+      });
+    });
+
+    it("reports malformed input", () => {
+      expect(parseGeolocation("{ not json").errors).toEqual([
+        "Invalid JSON: check brackets, commas and quotes",
+      ]);
+      expect(
+        parseGeolocation('{"type": "Point", "coordinates": ["1", 2]}').errors
+      ).toEqual(["Point: expected a [longitude, latitude] pair"]);
+      expect(parseGeolocation('{"type": "LineString"}').errors[0]).toMatch(
+        /Unsupported GeoJSON type "LineString"/
+      );
+      expect(parseGeolocation("[1, 2]").errors).toEqual([
+        "GeoJSON must be an object",
+      ]);
+      expect(
+        parseGeolocation('{"type": "FeatureCollection", "features": {}}').errors
+      ).toEqual(["FeatureCollection: expected an array of features"]);
+    });
+  });
+
+  describe("WKT", () => {
+    it("parses a point", () => {
+      const result = parseGeolocation("POINT (101.5 2.25)");
+      expect(result.format).toBe("wkt");
+      expect(result.geometry).toEqual({
+        type: "Point",
+        coordinates: [101.5, 2.25],
+      });
+    });
+
+    it("parses a multipolygon, ignoring Z values", () => {
+      const result = parseGeolocation(
+        "MULTIPOLYGON Z (((0 0 5, 1 0 5, 1 1 5, 0 1 5, 0 0 5)), ((2 0, 3 0, 3 1, 2 1, 2 0)))"
+      );
+      expect(result.errors).toEqual([]);
+      expect(result.geometry?.type).toBe("MultiPolygon");
+      expect(result.geometry?.coordinates).toHaveLength(2);
+    });
+
+    it("reports unbalanced parentheses", () => {
+      expect(parseGeolocation("POLYGON ((0 0, 1 0, 1 1, 0 0)").errors).toEqual([
+        "Invalid WKT: check parentheses and coordinate separators",
+      ]);
+    });
+  });
+
+  describe("lat, lon lists", () => {
+    it("reads a single pair as a point, latitude first", () => {
+      const result = parseGeolocation("2.25, 101.5");
+      expect(result.format).toBe("latlon");
+      expect(result.geometry).toEqual({
+        type: "Point",
+        coordinates: [101.5, 2.25],
+      });
+    });
+
+    it("reads several pairs as a polygon", () => {
+      const result = parseGeolocation("0, 0\n0, 1\n1, 1\n0, 0");
+      expect(result.errors).toEqual([]);
+      expect(result.geometry?.type).toBe("Polygon");
+    });
+
+    it("rejects an unclosed list", () => {
+      expect(parseGeolocation("0, 0; 0, 1; 1, 1").errors).toEqual([
+        "Polygon outer ring is not closed: the first and last coordinates must be identical",
+      ]);
+    });
+  });
+
+  it("rejects unrecognized text", () => {
+    expect(parseGeolocation("near the river").geometry).toBeNull();
+  });
+});
+
+describe("validateGeometry", () => {
+  it("accepts a polygon with a hole inside the outer ring", () => {
+    expect(
+      validateGeometry(polygon(square(0, 0, 10), square(2, 2, 2)))
+    ).toEqual([]);
+  });
+
+  it("rejects out-of-range coordinates", () => {
+    expect(validateGeometry({ type: "Point", coordinates: [181, 0] })).toEqual([
+      "Point: longitude 181 is outside -180..180",
+    ]);
+  });
+
+  it("rejects rings with too few vertices", () => {
+    expect(
+      validateGeometry(
+        polygon([
+          [0, 0],
+          [1, 1],
+          [0, 0],
+        ])
+      )
+    ).toEqual(["Polygon outer ring needs at least 3 distinct vertices"]);
+  });
+
+  it("rejects a self-intersecting ring", () => {
+    const bowtie = [
+      [0, 0],
+      [1, 1],
+      [1, 0],
+      [0, 1],
+      [0, 0],
+    ];
+    expect(validateGeometry(polygon(bowtie))).toEqual([
+      "Polygon outer ring intersects itself",
+    ]);
+  });
+
+  it("rejects a hole outside the outer ring", () => {
+    expect(
+      validateGeometry(polygon(square(0, 0, 10), square(20, 20, 2)))
+    ).toEqual(["Polygon hole 1 is not inside the outer ring"]);
+  });
+
+  it("rejects a hole overlapping the outer ring", () => {
+    expect(
+      validateGeometry(polygon(square(0, 0, 10), square(8, 8, 4)))
+    ).toEqual(["Polygon hole 1 is not inside the outer ring"]);
+  });
+
+  it("rejects a hole enclosing the outer ring", () => {
+    expect(
+      validateGeometry(polygon(square(2, 2, 2), square(0, 0, 10)))
+    ).toEqual(["Polygon hole 1 is not inside the outer ring"]);
+  });
+});
+
+describe("geometryAreaHectares", () => {
+  it("subtracts holes from the outer ring", () => {
+    const whole = geometryAreaHectares(polygon(square(0, 0, 0.01)));
+    const withHole = geometryAreaHectares(
+      polygon(square(0, 0, 0.01), square(0.0025, 0.0025, 0.005))
+    );
+    expect(whole).toBeGreaterThan(120);
+    expect(withHole).toBeCloseTo(whole * 0.75, 1);
+  });
+});
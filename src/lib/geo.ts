@@ -0,0 +1,558 @@
+// Geolocation parsing and validation for harvest plots.
+// Accepts GeoJSON, WKT and plain "lat, lon" lists and normalizes them
+// to RFC 7946 GeoJSON geometries (longitude first, WGS84).
+
+export type Position = [number, number];
+
+export interface PointGeometry {
+  type: "Point";
+  coordinates: Position;
+}
+
+export interface PolygonGeometry {
+  type: "Polygon";
+  coordinates: Position[][];
+}
+
+export interface MultiPolygonGeometry {
+  type: "MultiPolygon";
+  coordinates: Position[][][];
+}
+
+export type Geometry = PointGeometry | PolygonGeometry | MultiPolygonGeometry;
+
+export type GeoInputFormat = "geojson" | "wkt" | "latlon";
+
+export interface GeoParseResult {
+  geometry: Geometry | null;
+  format: GeoInputFormat | null;
+  errors: string[];
+}
+
+const NUMBER = "[-+]?(?:\\d+\\.?\\d*|\\.\\d+)(?:[eE][-+]?\\d+)?";
+const LATLON_LINE = new RegExp(
+  `^\\s*(${NUMBER})\\s*[,\\s]\\s*(${NUMBER})\\s*$`
+);
+
+export const detectGeoFormat = (input: string): GeoInputFormat | null => {
+  const text = input.trim();
+  if (!text) return null;
+  if (text.startsWith("{") || text.startsWith("[")) return "geojson";
+  if (/^(POINT|POLYGON|MULTIPOLYGON)\b/i.test(text)) return "wkt";
+  const lines = splitLatLonLines(text);
+  if (lines.length > 0 && lines.every((line) => LATLON_LINE.test(line))) {
+    return "latlon";
+  }
+  return null;
+};
+
+export const parseGeolocation = (input: string): GeoParseResult => {
+  const format = detectGeoFormat(input);
+  if (!format) {
+    return {
+      geometry: null,
+      format: null,
+      errors: [
+        'Unrecognized format. Enter GeoJSON, WKT or one "lat, lon" pair per line.',
+      ],
+    };
+  }
+
+  let geometry: Geometry;
+  try {
+    if (format === "geojson") geometry = parseGeoJson(input);
+    else if (format === "wkt") geometry = parseWkt(input);
+    else geometry = parseLatLonList(input);
+  } catch (error: any) {
+    return { geometry: null, format, errors: [error.message] };
+  }
+
+  const errors = validateGeometry(geometry);
+  if (errors.length > 0) {
+    return { geometry: null, format, errors };
+  }
+  return { geometry: normalizeGeometry(geometry), format, errors: [] };
+};
+
+// Returns a list of human-readable problems; empty when the geometry is valid
+export const validateGeometry = (geometry: Geometry): string[] => {
+  const errors: string[] = [];
+
+  if (geometry.type === "Point") {
+    errors.push(...validatePosition(geometry.coordinates, "Point"));
+    return errors;
+  }
+
+  const polygons =
+    geometry.type === "Polygon" ? [geometry.coordinates] : geometry.coordinates;
+
+  if (polygons.length === 0) {
+    errors.push("Geometry contains no polygons");
+  }
+
+  polygons.forEach((rings, polygonIndex) => {
+    const polygonLabel =
+      polygons.length > 1 ? `Polygon ${polygonIndex + 1}` : "Polygon";
+    if (rings.length === 0) {
+      errors.push(`${polygonLabel} has no rings`);
+    }
+    const ringErrors = rings.map((ring, ringIndex) =>
+      validateRing(
+        ring,
+        ringIndex === 0
+          ? `${polygonLabel} outer ring`
+          : `${polygonLabel} hole ${ringIndex}`
+      )
+    );
+    ringErrors.forEach((ringError) => errors.push(...ringError));
+    if (ringErrors.some((ringError) => ringError.length > 0)) return;
+
+    const [outer, ...holes] = rings;
+    holes.forEach((hole, holeIndex) => {
+      if (!ringInsideRing(hole, outer)) {
+        errors.push(
+          `${polygonLabel} hole ${holeIndex + 1} is not inside the outer ring`
+        );
+      }
+    });
+  });
+
+  return errors;
+};
+
+const validatePosition = (position: Position, label: string): string[] => {
+  const [lon, lat] = position;
+  const errors: string[] = [];
+  if (!Number.isFinite(lon) || !Number.isFinite(lat)) {
+    errors.push(`${label}: coordinate is not a number`);
+    return errors;
+  }
+  if (lon < -180 || lon > 180) {
+    errors.push(`${label}: longitude ${lon} is outside -180..180`);
+  }
+  if (lat < -90 || lat > 90) {
+    errors.push(`${label}: latitude ${lat} is outside -90..90`);
+  }
+  return errors;
+};
+
+const validateRing = (rawRing: Position[], label: string): string[] => {
+  const errors: string[] = [];
+  const ring = removeRepeatedVertices(rawRing);
+
+  rawRing.forEach((position, index) => {
+    errors.push(...validatePosition(position, `${label}, vertex ${index + 1}`));
+  });
+  if (errors.length > 0) return errors;
+
+  if (ring.length === 0) {
+    errors.push(`${label} has no coordinates`);
+    return errors;
+  }
+  if (!samePosition(ring[0], ring[ring.length - 1])) {
+    errors.push(
+      `${label} is not closed: the first and last coordinates must be identical`
+    );
+    return errors;
+  }
+  if (ring.length < 4) {
+    errors.push(`${label} needs at least 3 distinct vertices`);
+    return errors;
+  }
+  if (findSelfIntersection(ring)) {
+    errors.push(`${label} intersects itself`);
+  }
+  return errors;
+};
+
+const samePosition = (a: Position, b: Position) =>
+  a[0] === b[0] && a[1] === b[1];
+
+const orientation = (p: Position, q: Position, r: Position) => {
+  const value = (q[1] - p[1]) * (r[0] - q[0]) - (q[0] - p[0]) * (r[1] - q[1]);
+  if (value === 0) return 0;
+  return value > 0 ? 1 : 2;
+};
+
+const onSegment = (p: Position, q: Position, r: Position) =>
+  q[0] <= Math.max(p[0], r[0]) &&
+  q[0] >= Math.min(p[0], r[0]) &&
+  q[1] <= Math.max(p[1], r[1]) &&
+  q[1] >= Math.min(p[1], r[1]);
+
+const segmentsIntersect = (
+  p1: Position,
+  q1: Position,
+  p2: Position,
+  q2: Position
+) => {
+  const o1 = orientation(p1, q1, p2);
+  const o2 = orientation(p1, q1, q2);
+  const o3 = orientation(p2, q2, p1);
+  const o4 = orientation(p2, q2, q1);
+
+  if (o1 !== o2 && o3 !== o4) return true;
+  if (o1 === 0 && onSegment(p1, p2, q1)) return true;
+  if (o2 === 0 && onSegment(p1, q2, q1)) return true;
+  if (o3 === 0 && onSegment(p2, p1, q2)) return true;
+  if (o4 === 0 && onSegment(p2, q1, q2)) return true;
+  return false;
+};
+
+const findSelfIntersection = (ring: Position[]): boolean => {
+  const segmentCount = ring.length - 1;
+  for (let i = 0; i < segmentCount; i++) {
+    for (let j = i + 1; j < segmentCount; j++) {
+      // Neighbouring segments always share a vertex
+      const adjacent = j === i + 1 || (i === 0 && j === segmentCount - 1);
+      if (adjacent) continue;
+      if (segmentsIntersect(ring[i], ring[i + 1], ring[j], ring[j + 1])) {
+        return true;
+      }
+    }
+  }
+  return false;
+};
+
+// Ray casting; points on the boundary may count either way
+const pointInRing = ([x, y]: Position, ring: Position[]) => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 2; i < ring.length - 1; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    const crossesY = yi > y ? yj <= y : yj > y;
+    if (crossesY && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+// Both rings must be closed and valid. With no edges touching or crossing,
+// the inner ring lies wholly on one side of the outer one.
+const ringInsideRing = (inner: Position[], outer: Position[]): boolean => {
+  for (let i = 0; i < inner.length - 1; i++) {
+    for (let j = 0; j < outer.length - 1; j++) {
+      if (segmentsIntersect(inner[i], inner[i + 1], outer[j], outer[j + 1])) {
+        return false;
+      }
+    }
+  }
+  return pointInRing(inner[0], outer);
+};
+
+// Shoelace sum; positive for counter-clockwise rings
+const signedArea = (ring: Position[]) => {
+  let sum = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    sum += ring[i][0] * ring[i + 1][1] - ring[i + 1][0] * ring[i][1];
+  }
+  return sum / 2;
+};
+
+const removeRepeatedVertices = (ring: Position[]): Position[] =>
+  ring.filter(
+    (position, index) => index === 0 || !samePosition(position, ring[index - 1])
+  );
+
+// RFC 7946: exterior rings counter-clockwise, holes clockwise
+const normalizeRings = (rings: Position[][]): Position[][] =>
+  rings.map((ring, index) => {
+    const cleaned = removeRepeatedVertices(ring).map(
+      ([lon, lat]) => [lon, lat] as Position
+    );
+    const counterClockwise = signedArea(cleaned) > 0;
+    const shouldBeCounterClockwise = index === 0;
+    return counterClockwise === shouldBeCounterClockwise
+      ? cleaned
+      : cleaned.reverse();
+  });
+
+export const normalizeGeometry = (geometry: Geometry): Geometry => {
+  switch (geometry.type) {
+    case "Point":
+      return {
+        type: "Point",
+        coordinates: [geometry.coordinates[0], geometry.coordinates[1]],
+      };
+    case "Polygon":
+      return {
+        type: "Polygon",
+        coordinates: normalizeRings(geometry.coordinates),
+      };
+    case "MultiPolygon":
+      return {
+        type: "MultiPolygon",
+        coordinates: geometry.coordinates.map(normalizeRings),
+      };
+  }
+};
+
+export const formatGeometry = (geometry: Geometry): string =>
+  JSON.stringify(geometry, null, 2);
+
+export const describeGeometry = (geometry: Geometry): string => {
+  switch (geometry.type) {
+    case "Point":
+      return `Point at ${geometry.coordinates[1]}, ${geometry.coordinates[0]}`;
+    case "Polygon":
+      return `Polygon with ${geometry.coordinates[0].length - 1} vertices`;
+    case "MultiPolygon":
+      return `${geometry.coordinates.length} polygons`;
+  }
+};
+
+// Accepts a stored geolocation in any supported form (older submissions
+// hold free text) and returns a valid geometry, or null
+export const toGeometry = (value: unknown): Geometry | null => {
+  if (!value) return null;
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return parseGeolocation(text).geometry;
+};
+
+export const getPolygons = (geometry: Geometry): Position[][][] => {
+  if (geometry.type === "Polygon") return [geometry.coordinates];
+  if (geometry.type === "MultiPolygon") return geometry.coordinates;
+  return [];
+};
+
+export interface GeoBounds {
+  minLon: number;
+  minLat: number;
+  maxLon: number;
+  maxLat: number;
+}
+
+export const geometryBounds = (geometry: Geometry): GeoBounds => {
+  const positions =
+    geometry.type === "Point"
+      ? [geometry.coordinates]
+      : getPolygons(geometry).flat(2);
+  return positions.reduce(
+    (bounds, [lon, lat]) => ({
+      minLon: Math.min(bounds.minLon, lon),
+      minLat: Math.min(bounds.minLat, lat),
+      maxLon: Math.max(bounds.maxLon, lon),
+      maxLat: Math.max(bounds.maxLat, lat),
+    }),
+    { minLon: 180, minLat: 90, maxLon: -180, maxLat: -90 }
+  );
+};
+
+const EARTH_RADIUS = 6378137;
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Spherical excess approximation, as used by most web mapping libraries
+const ringAreaSquareMeters = (ring: Position[]) => {
+  let total = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    const [lon1, lat1] = ring[i];
+    const [lon2, lat2] = ring[i + 1];
+    total +=
+      toRadians(lon2 - lon1) *
+      (2 + Math.sin(toRadians(lat1)) + Math.sin(toRadians(lat2)));
+  }
+  return Math.abs((total * EARTH_RADIUS * EARTH_RADIUS) / 2);
+};
+
+export const polygonAreaHectares = (rings: Position[][]): number => {
+  const [outer, ...holes] = rings;
+  if (!outer) return 0;
+  const squareMeters =
+    ringAreaSquareMeters(outer) -
+    holes.reduce((sum, hole) => sum + ringAreaSquareMeters(hole), 0);
+  return squareMeters / 10000;
+};
+
+export const geometryAreaHectares = (geometry: Geometry): number =>
+  getPolygons(geometry).reduce(
+    (sum, rings) => sum + polygonAreaHectares(rings),
+    0
+  );
+
+// Area-weighted centroid of the outer rings; planar, which is accurate
+// enough at plot scale
+export const geometryCentroid = (geometry: Geometry): Position => {
+  if (geometry.type === "Point") return geometry.coordinates;
+
+  let weightedLon = 0;
+  let weightedLat = 0;
+  let totalArea = 0;
+  getPolygons(geometry).forEach(([outer]) => {
+    for (let i = 0; i < outer.length - 1; i++) {
+      const [x1, y1] = outer[i];
+      const [x2, y2] = outer[i + 1];
+      const cross = x1 * y2 - x2 * y1;
+      weightedLon += (x1 + x2) * cross;
+      weightedLat += (y1 + y2) * cross;
+      totalArea += cross;
+    }
+  });
+
+  if (totalArea === 0) {
+    const { minLon, minLat, maxLon, maxLat } = geometryBounds(geometry);
+    return [(minLon + maxLon) / 2, (minLat + maxLat) / 2];
+  }
+  return [weightedLon / (3 * totalArea), weightedLat / (3 * totalArea)];
+};
+
+const isPosition = (value: unknown): value is Position =>
+  Array.isArray(value) &&
+  value.length >= 2 &&
+  typeof value[0] === "number" &&
+  typeof value[1] === "number";
+
+const toPosition = (value: unknown, label: string): Position => {
+  if (!isPosition(value)) {
+    throw new Error(`${label}: expected a [longitude, latitude] pair`);
+  }
+  // Altitude, if present, is dropped
+  return [value[0], value[1]];
+};
+
+const toRings = (value: unknown, label: string): Position[][] => {
+  if (!Array.isArray(value)) {
+    throw new Error(`${label}: expected an array of rings`);
+  }
+  return value.map((ring: unknown, index) => {
+    if (!Array.isArray(ring)) {
+      throw new Error(`${label}: ring ${index + 1} is not an array`);
+    }
+    return ring.map((position: unknown) => toPosition(position, label));
+  });
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const geometryFromGeoJson = (value: unknown): Geometry => {
+  if (!isRecord(value)) {
+    throw new Error("GeoJSON must be an object");
+  }
+  switch (value.type) {
+    case "Point":
+      return {
+        type: "Point",
+        coordinates: toPosition(value.coordinates, "Point"),
+      };
+    case "Polygon":
+      return {
+        type: "Polygon",
+        coordinates: toRings(value.coordinates, "Polygon"),
+      };
+    case "MultiPolygon":
+      if (!Array.isArray(value.coordinates)) {
+        throw new Error("MultiPolygon: expected an array of polygons");
+      }
+      return {
+        type: "MultiPolygon",
+        coordinates: value.coordinates.map((polygon: unknown) =>
+          toRings(polygon, "MultiPolygon")
+        ),
+      };
+    case "Feature":
+      return geometryFromGeoJson(value.geometry);
+    case "FeatureCollection":
+      if (value.features !== undefined && !Array.isArray(value.features)) {
+        throw new Error("FeatureCollection: expected an array of features");
+      }
+      return mergeGeometries(
+        (value.features || []).map((feature: unknown) =>
+          geometryFromGeoJson(feature)
+        )
+      );
+    default:
+      throw new Error(
+        `Unsupported GeoJSON type "${String(
+          value.type
+        )}". Use Point, Polygon or MultiPolygon.`
+      );
+  }
+};
+
+const mergeGeometries = (geometries: Geometry[]): Geometry => {
+  if (geometries.length === 0) {
+    throw new Error("FeatureCollection contains no features");
+  }
+  if (geometries.length === 1) return geometries[0];
+  if (geometries.some((geometry) => geometry.type === "Point")) {
+    throw new Error(
+      "A FeatureCollection may combine polygons, but not points; submit a single point or only polygons"
+    );
+  }
+  const polygons: Position[][][] = [];
+  geometries.forEach((geometry) => {
+    if (geometry.type === "Polygon") polygons.push(geometry.coordinates);
+    if (geometry.type === "MultiPolygon")
+      polygons.push(...geometry.coordinates);
+  });
+  return { type: "MultiPolygon", coordinates: polygons };
+};
+
+const parseGeoJson = (input: string): Geometry => {
+  let value: unknown;
+  try {
+    value = JSON.parse(input);
+  } catch (error) {
+    throw new Error("Invalid JSON: check brackets, commas and quotes");
+  }
+  return geometryFromGeoJson(value);
+};
+
+const parseWkt = (input: string): Geometry => {
+  const match = input
+    .trim()
+    .match(/^(POINT|POLYGON|MULTIPOLYGON)\s*(?:Z|M|ZM)?\s*(\([\s\S]*\))$/i);
+  if (!match) {
+    throw new Error(
+      "Invalid WKT: expected POINT, POLYGON or MULTIPOLYGON (...)"
+    );
+  }
+  const type = match[1].toUpperCase();
+
+  // Rewrite "x y [z]" tuples as JSON pairs, then the parentheses as brackets
+  const coordinate = new RegExp(
+    `(${NUMBER})\\s+(${NUMBER})(?:\\s+${NUMBER}){0,2}`,
+    "g"
+  );
+  const json = match[2]
+    .replace(coordinate, "[$1,$2]")
+    .replace(/\(/g, "[")
+    .replace(/\)/g, "]");
+
+  let nested: unknown;
+  try {
+    nested = JSON.parse(json);
+  } catch (error) {
+    throw new Error("Invalid WKT: check parentheses and coordinate separators");
+  }
+
+  if (type === "POINT") {
+    return geometryFromGeoJson({
+      type: "Point",
+      coordinates: Array.isArray(nested) ? nested[0] : nested,
+    });
+  }
+  if (type === "POLYGON") {
+    return geometryFromGeoJson({ type: "Polygon", coordinates: nested });
+  }
+  return geometryFromGeoJson({ type: "MultiPolygon", coordinates: nested });
+};
+
+const splitLatLonLines = (input: string) =>
+  input
+    .split(/[\n;]/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+
+const parseLatLonList = (input: string): Geometry => {
+  const positions = splitLatLonLines(input).map((line) => {
+    const [, lat, lon] = line.match(LATLON_LINE) as RegExpMatchArray;
+    return [parseFloat(lon), parseFloat(lat)] as Position;
+  });
+
+  if (positions.length === 1) {
+    return { type: "Point", coordinates: positions[0] };
+  }
+  return { type: "Polygon", coordinates: [positions] };
+};
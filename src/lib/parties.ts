@@ -0,0 +1,149 @@
+import { Party, PartyAddress } from "../types/submission";
+import { isCountryCode } from "./countries";
+
+export type PartyField =
+  | Exclude<keyof Party, "address">
+  | `address.${keyof PartyAddress}`;
+
+export type PartyErrors = Partial<Record<PartyField, string>>;
+
+export const emptyParty = (): Party => ({
+  legalName: "",
+  registrationNumber: "",
+  vatNumber: "",
+  eoriNumber: "",
+  email: "",
+  phone: "",
+  address: {
+    line1: "",
+    line2: "",
+    city: "",
+    postalCode: "",
+    region: "",
+    country: "",
+  },
+});
+
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE = /^\+?[0-9][0-9 ().-]{5,19}$/;
+// Country prefix followed by the national number, e.g. "DE123456789012345"
+const EORI = /^[A-Z]{2}[A-Z0-9]{1,15}$/;
+const TAX_NUMBER = /^[A-Z0-9][A-Z0-9 .\-/]{3,19}$/i;
+
+export const isPartyEmpty = (party: Party | null | undefined): boolean =>
+  !party ||
+  [
+    party.legalName,
+    party.registrationNumber,
+    party.vatNumber,
+    party.eoriNumber,
+    party.email,
+    party.phone,
+    ...Object.values(party.address),
+  ].every((value) => !value.trim());
+
+export const validateParty = (party: Party): PartyErrors => {
+  const errors: PartyErrors = {};
+
+  if (!party.legalName.trim()) errors.legalName = "Legal name is required";
+  if (
+    party.registrationNumber.trim() &&
+    !TAX_NUMBER.test(party.registrationNumber.trim())
+  ) {
+    errors.registrationNumber = "Enter the registration number as issued";
+  }
+  if (party.vatNumber.trim() && !TAX_NUMBER.test(party.vatNumber.trim())) {
+    errors.vatNumber = "Enter the VAT or tax number as issued";
+  }
+  if (
+    party.eoriNumber.trim() &&
+    !EORI.test(party.eoriNumber.trim().toUpperCase())
+  ) {
+    errors.eoriNumber = "An EORI number starts with a country code, e.g. DE…";
+  }
+
+  if (!party.email.trim()) {
+    errors.email = "Email is required";
+  } else if (!EMAIL.test(party.email.trim())) {
+    errors.email = "Enter a valid email address";
+  }
+  if (party.phone.trim() && !PHONE.test(party.phone.trim())) {
+    errors.phone =
+      "Enter a phone number with country code, e.g. +62 21 555 0100";
+  }
+
+  if (!party.address.line1.trim()) {
+    errors["address.line1"] = "Street address is required";
+  }
+  if (!party.address.city.trim()) errors["address.city"] = "City is required";
+  if (!party.address.country.trim()) {
+    errors["address.country"] = "Country is required";
+  } else if (!isCountryCode(party.address.country.trim())) {
+    errors["address.country"] = "Use the ISO country code, e.g. ID";
+  }
+
+  return errors;
+};
+
+// Accepts a stored party in any supported form; older submissions and drafts
+// hold free text with the name on the first line
+export const toParty = (value: unknown): Party | null => {
+  if (!value) return null;
+  if (typeof value === "string") {
+    const [name, ...rest] = value
+      .split("\n")
+      .map((line) => line.trim())
+      .filter(Boolean);
+    const party = emptyParty();
+    party.legalName = name || "";
+    party.address.line1 = rest.join(", ");
+    return party;
+  }
+  if (typeof value === "object") {
+    const stored = value as Partial<Party>;
+    return {
+      ...emptyParty(),
+      ...stored,
+      address: { ...emptyParty().address, ...stored.address },
+    };
+  }
+  return null;
+};
+
+export const partyName = (value: unknown): string =>
+  toParty(value)?.legalName.trim() || "";
+
+// Human-readable lines: name, identifiers, contact and postal address
+export const formatParty = (value: unknown): string[] => {
+  if (typeof value === "string") return value.split("\n").filter(Boolean);
+  const party = toParty(value);
+  if (!party) return [];
+  const { address } = party;
+  const join = (parts: string[], separator: string) =>
+    parts
+      .map((part) => part.trim())
+      .filter(Boolean)
+      .join(separator);
+
+  return [
+    party.legalName,
+    join(
+      [
+        party.registrationNumber && `Reg. no. ${party.registrationNumber}`,
+        party.vatNumber && `VAT ${party.vatNumber}`,
+        party.eoriNumber && `EORI ${party.eoriNumber}`,
+      ],
+      " · "
+    ),
+    join([party.email, party.phone], " · "),
+    join([address.line1, address.line2], ", "),
+    join([join([address.postalCode, address.city], " "), address.region], ", "),
+    address.country.toUpperCase(),
+  ].filter((line) => line.trim());
+};
+
+// Identifies the same party across submissions, for the address book
+export const partyKey = (party: Party): string =>
+  [party.legalName, party.registrationNumber || party.vatNumber]
+    .map((part) => part.trim().toLowerCase())
+    .join("|");
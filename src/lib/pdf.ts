@@ -0,0 +1,18 @@
+import * as pdfjs from "pdfjs-dist";
+import type { PDFDocumentProxy, RenderTask } from "pdfjs-dist";
+
+// Bundled with the app so PDFs render without fetching a worker from a CDN
+pdfjs.GlobalWorkerOptions.workerSrc = new URL(
+  "pdfjs-dist/build/pdf.worker.min.js",
+  import.meta.url
+).toString();
+
+export type { PDFDocumentProxy, RenderTask };
+
+export const loadPdf = async (blob: Blob): Promise<PDFDocumentProxy> => {
+  const data = new Uint8Array(await blob.arrayBuffer());
+  return pdfjs.getDocument({ data }).promise;
+};
+
+export const isPasswordError = (error: unknown): boolean =>
+  (error as { name?: string })?.name === "PasswordException";
@@ -0,0 +1,186 @@
+import {
+  RiskFacts,
+  RiskInput,
+  RiskRuleSet,
+  assessRisk,
+  matchesCondition,
+  riskFacts,
+} from "./riskAssessment";
+
+const point = { type: "Point", coordinates: [101.5, 2.25] };
+
+// 0.01° square near the equator, about 123 ha
+const polygon = {
+  type: "Polygon",
+  coordinates: [
+    [
+      [101.5, 2.25],
+      [101.51, 2.25],
+      [101.51, 2.26],
+      [101.5, 2.26],
+      [101.5, 2.25],
+    ],
+  ],
+};
+
+// A complete, low-risk submission that triggers no rule
+const input = (changes: Partial<RiskInput> = {}): RiskInput => ({
+  supplierCountry: "DE",
+  productionCountry: "DE",
+  woodOriginCountry: "DE",
+  speciesNames: [
+    { commonName: "Tasmanian blue gum", scientificName: "Eucalyptus globulus" },
+  ],
+  harvestDates: "2019-03-01/2019-06-30",
+  geolocationPolygon: polygon,
+  fileCounts: { fscCertificates: 1, fscCocCertificate: 1 },
+  ...changes,
+});
+
+const ruleIds = (changes: Partial<RiskInput>) =>
+  assessRisk(input(changes)).findings.map((finding) => finding.ruleId);
+
+describe("riskFacts", () => {
+  it("computes the area of polygons", () => {
+    expect(riskFacts(input()).plotAreaHectares).toBeGreaterThan(120);
+  });
+
+  it("takes a point's area from the declaration", () => {
+    expect(
+      riskFacts(input({ geolocationPolygon: point, plotAreaHectares: "3.5" }))
+        .plotAreaHectares
+    ).toBe(3.5);
+    expect(
+      riskFacts(input({ geolocationPolygon: point, plotAreaHectares: null }))
+        .plotAreaHectares
+    ).toBe(0);
+    expect(
+      riskFacts(input({ geolocationPolygon: point, plotAreaHectares: "-2" }))
+        .plotAreaHectares
+    ).toBe(0);
+  });
+
+  it("takes the highest tier along the supply chain", () => {
+    expect(
+      riskFacts(input({ supplierCountry: "RU" })).supplyChainRiskTier
+    ).toBe("high");
+    expect(
+      riskFacts(input({ woodOriginCountry: "Atlantis" })).originRiskTier
+    ).toBe("unknown");
+  });
+});
+
+describe("matchesCondition", () => {
+  const facts = riskFacts(input());
+
+  it("combines conditions with all, any and not", () => {
+    const low = { fact: "originRiskTier" as const, equals: "low" };
+    const high = { fact: "originRiskTier" as const, equals: "high" };
+    expect(matchesCondition({ all: [low, { not: high }] }, facts)).toBe(true);
+    expect(matchesCondition({ any: [high, { not: low }] }, facts)).toBe(false);
+  });
+
+  it("compares numbers and lists", () => {
+    expect(
+      matchesCondition({ fact: "speciesCount", greaterThan: 0 }, facts)
+    ).toBe(true);
+    expect(matchesCondition({ fact: "speciesCount", lessThan: 1 }, facts)).toBe(
+      false
+    );
+    expect(
+      matchesCondition(
+        { fact: "geolocationType", in: ["Polygon", "MultiPolygon"] },
+        facts
+      )
+    ).toBe(true);
+  });
+
+  it("never treats an empty date as before or after", () => {
+    const undated: RiskFacts = { ...facts, latestHarvestDate: "" };
+    expect(
+      matchesCondition(
+        { fact: "latestHarvestDate", after: "2020-12-31" },
+        undated
+      )
+    ).toBe(false);
+    expect(
+      matchesCondition(
+        { fact: "latestHarvestDate", before: "2020-12-31" },
+        undated
+      )
+    ).toBe(false);
+  });
+});
+
+describe("assessRisk", () => {
+  it("finds nothing in a complete low-risk submission", () => {
+    const assessment = assessRisk(input());
+    expect(assessment.findings).toEqual([]);
+    expect(assessment.level).toBe("low");
+  });
+
+  it("accepts a point for a plot of up to 4 ha", () => {
+    expect(
+      ruleIds({ geolocationPolygon: point, plotAreaHectares: "4" })
+    ).toEqual([]);
+  });
+
+  it("flags a point for a plot larger than 4 ha", () => {
+    expect(
+      ruleIds({ geolocationPolygon: point, plotAreaHectares: "4.5" })
+    ).toEqual(["geolocation-point-only"]);
+  });
+
+  it("asks for the area of a point plot", () => {
+    expect(ruleIds({ geolocationPolygon: point })).toEqual([
+      "geolocation-point-area-undeclared",
+    ]);
+  });
+
+  it("never applies the point rules to polygons", () => {
+    expect(ruleIds({ plotAreaHectares: "50" })).toEqual([]);
+  });
+
+  it("flags harvests after the cutoff and missing certificates", () => {
+    expect(
+      ruleIds({
+        harvestDates: "2021-01-01/2021-02-01",
+        fileCounts: { fscCertificates: 0, fscCocCertificate: 0 },
+      }).sort()
+    ).toEqual(["coc-certificate-missing", "harvest-after-cutoff"]);
+  });
+
+  it("sorts findings by severity and derives the level from the score", () => {
+    const ruleSet: RiskRuleSet = {
+      version: "test",
+      updated: "2026-01-01",
+      levels: { medium: 10, high: 50 },
+      rules: [
+        {
+          id: "low",
+          title: "Low",
+          description: "",
+          severity: "low",
+          score: 5,
+          when: { fact: "speciesCount", greaterThan: 0 },
+        },
+        {
+          id: "high",
+          title: "High",
+          description: "",
+          severity: "high",
+          score: 80,
+          when: { fact: "geolocationType", equals: "Polygon" },
+        },
+      ],
+    };
+    const assessment = assessRisk(input(), ruleSet);
+    expect(assessment.findings.map((finding) => finding.ruleId)).toEqual([
+      "high",
+      "low",
+    ]);
+    expect(assessment.score).toBe(85);
+    expect(assessment.level).toBe("high");
+    expect(assessment.rulesVersion).toBe("test");
+  });
+});
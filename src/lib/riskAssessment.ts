@@ -0,0 +1,259 @@
+import riskRules from "../data/riskRules.json";
+import { Document, FileData, FormData } from "../types/submission";
+import { parseCountryRegion } from "./countries";
+import { RiskTier, riskTierFor } from "./countryRisk";
+import { parseDateRanges } from "./dateRanges";
+import { geometryAreaHectares, toGeometry } from "./geo";
+import { findSpecies, isScientificName, parseSpecies } from "./species";
+import { fileIdsOf } from "./submissionSchema";
+
+// Scores a submission against the rules in src/data/riskRules.json. Each rule
+// is a condition over the facts below; the rules file is versioned so a
+// result can be traced to the rules that produced it.
+
+export type Severity = "low" | "medium" | "high";
+
+export interface RiskFacts {
+  originRiskTier: RiskTier | "unknown";
+  // Highest tier among the supplier, production and origin countries
+  supplyChainRiskTier: RiskTier | "unknown";
+  hasFscCertificate: boolean;
+  hasFscCocCertificate: boolean;
+  speciesCount: number;
+  unscientificSpeciesCount: number;
+  citesSpeciesCount: number;
+  geolocationType: "Point" | "Polygon" | "MultiPolygon" | "none";
+  // Area of the polygons, or the declared area for a point; 0 when a point's
+  // area isn't declared
+  plotAreaHectares: number;
+  // Latest ISO date of the harvest ranges, or "" when none are given
+  latestHarvestDate: string;
+}
+
+type FactValue = string | number | boolean;
+
+export type RiskCondition =
+  | { all: RiskCondition[] }
+  | { any: RiskCondition[] }
+  | { not: RiskCondition }
+  | {
+      fact: keyof RiskFacts;
+      equals?: FactValue;
+      in?: FactValue[];
+      greaterThan?: number;
+      lessThan?: number;
+      // ISO dates, compared as text
+      after?: string;
+      before?: string;
+    };
+
+export interface RiskRule {
+  id: string;
+  title: string;
+  description: string;
+  severity: Severity;
+  score: number;
+  when: RiskCondition;
+}
+
+export interface RiskRuleSet {
+  version: string;
+  updated: string;
+  // Minimum score of each level above low
+  levels: { medium: number; high: number };
+  rules: RiskRule[];
+}
+
+export interface RiskFinding {
+  ruleId: string;
+  title: string;
+  description: string;
+  severity: Severity;
+  score: number;
+}
+
+export interface RiskAssessment {
+  score: number;
+  level: Severity;
+  findings: RiskFinding[];
+  rulesVersion: string;
+}
+
+export const severityLabels: Record<Severity, string> = {
+  low: "Low",
+  medium: "Medium",
+  high: "High",
+};
+
+export const severityStyles: Record<Severity, string> = {
+  low: "bg-green-100 text-green-700",
+  medium: "bg-amber-100 text-amber-800",
+  high: "bg-red-100 text-red-700",
+};
+
+export const defaultRuleSet = riskRules as unknown as RiskRuleSet;
+
+export interface RiskInput {
+  supplierCountry?: string | null;
+  productionCountry?: string | null;
+  woodOriginCountry?: string | null;
+  speciesNames?: unknown;
+  harvestDates?: string | null;
+  geolocationPolygon?: unknown;
+  plotAreaHectares?: string | null;
+  // Number of files in each file category
+  fileCounts: Record<string, number>;
+}
+
+export const riskInputFromForm = (
+  formData: FormData,
+  fileData: FileData,
+  // Files attached from the document library, per category
+  libraryFileCounts: Partial<Record<string, number>> = {}
+): RiskInput => ({
+  ...formData,
+  fileCounts: Object.fromEntries(
+    Object.entries(fileData).map(([key, files]) => [
+      key,
+      files.length + (libraryFileCounts[key] || 0),
+    ])
+  ),
+});
+
+export const riskInputFromDocument = (document: Document): RiskInput => ({
+  ...document,
+  fileCounts: Object.fromEntries(
+    Object.entries(document.files || {}).map(([key, value]) => [
+      key,
+      fileIdsOf(value).length,
+    ])
+  ),
+});
+
+const tierRank: Record<RiskTier | "unknown", number> = {
+  unknown: 0,
+  low: 1,
+  standard: 2,
+  high: 3,
+};
+
+const tierOf = (value: string | null | undefined): RiskTier | "unknown" => {
+  const parsed = parseCountryRegion(value || "");
+  return parsed ? riskTierFor(parsed.country) : "unknown";
+};
+
+const declaredArea = (value: string | null | undefined) => {
+  const area = Number(value);
+  return value && Number.isFinite(area) && area > 0 ? area : 0;
+};
+
+export const riskFacts = (input: RiskInput): RiskFacts => {
+  const species = parseSpecies(input.speciesNames);
+  const geometry = toGeometry(input.geolocationPolygon);
+  const { ranges } = parseDateRanges(input.harvestDates || "");
+  const supplyChainRiskTier = [
+    input.supplierCountry,
+    input.productionCountry,
+    input.woodOriginCountry,
+  ]
+    .map(tierOf)
+    .reduce((highest, tier) =>
+      tierRank[tier] > tierRank[highest] ? tier : highest
+    );
+
+  return {
+    originRiskTier: tierOf(input.woodOriginCountry),
+    supplyChainRiskTier,
+    hasFscCertificate: (input.fileCounts.fscCertificates || 0) > 0,
+    hasFscCocCertificate: (input.fileCounts.fscCocCertificate || 0) > 0,
+    speciesCount: species.length,
+    unscientificSpeciesCount: species.filter(
+      (entry) => !isScientificName(entry.scientificName)
+    ).length,
+    citesSpeciesCount: species.filter(
+      (entry) => findSpecies(entry.scientificName)?.cites
+    ).length,
+    geolocationType: geometry ? geometry.type : "none",
+    plotAreaHectares: !geometry
+      ? 0
+      : geometry.type === "Point"
+      ? declaredArea(input.plotAreaHectares)
+      : geometryAreaHectares(geometry),
+    latestHarvestDate: ranges
+      .map((range) => range.end)
+      .reduce((latest, end) => (end > latest ? end : latest), ""),
+  };
+};
+
+export const matchesCondition = (
+  condition: RiskCondition,
+  facts: RiskFacts
+): boolean => {
+  if ("all" in condition) {
+    return condition.all.every((child) => matchesCondition(child, facts));
+  }
+  if ("any" in condition) {
+    return condition.any.some((child) => matchesCondition(child, facts));
+  }
+  if ("not" in condition) return !matchesCondition(condition.not, facts);
+
+  const value = facts[condition.fact];
+  if (condition.equals !== undefined && value !== condition.equals) {
+    return false;
+  }
+  if (condition.in && !condition.in.includes(value)) return false;
+  if (
+    condition.greaterThan !== undefined &&
+    !(Number(value) > condition.greaterThan)
+  ) {
+    return false;
+  }
+  if (
+    condition.lessThan !== undefined &&
+    !(Number(value) < condition.lessThan)
+  ) {
+    return false;
+  }
+  // An empty date is neither before nor after anything
+  if (condition.after !== undefined && !(value && value > condition.after)) {
+    return false;
+  }
+  if (condition.before !== undefined && !(value && value < condition.before)) {
+    return false;
+  }
+  return true;
+};
+
+const severityRank: Record<Severity, number> = { low: 0, medium: 1, high: 2 };
+
+export const assessRisk = (
+  input: RiskInput,
+  ruleSet: RiskRuleSet = defaultRuleSet
+): RiskAssessment => {
+  const facts = riskFacts(input);
+  const findings = ruleSet.rules
+    .filter((rule) => matchesCondition(rule.when, facts))
+    .map(
+      (rule): RiskFinding => ({
+        ruleId: rule.id,
+        title: rule.title,
+        description: rule.description,
+        severity: rule.severity,
+        score: rule.score,
+      })
+    )
+    .sort((a, b) => severityRank[b.severity] - severityRank[a.severity]);
+
+  const score = Math.min(
+    100,
+    findings.reduce((total, finding) => total + finding.score, 0)
+  );
+  const level: Severity =
+    score >= ruleSet.levels.high
+      ? "high"
+      : score >= ruleSet.levels.medium
+      ? "medium"
+      : "low";
+
+  return { score, level, findings, rulesVersion: ruleSet.version };
+};
@@ -0,0 +1,137 @@
+import pulpwoodSpecies from "../data/pulpwoodSpecies.json";
+import { Species } from "../types/submission";
+
+export type CitesAppendix = "I" | "II" | "III";
+
+export interface CatalogueSpecies {
+  scientificName: string;
+  commonNames: string[];
+  // Set when trade in the species is regulated under CITES
+  cites?: CitesAppendix;
+}
+
+// Commercial pulpwood species, plus CITES-listed timbers so they are
+// recognised and flagged when declared
+export const speciesCatalogue =
+  pulpwoodSpecies.species as unknown as CatalogueSpecies[];
+export const speciesCatalogueVersion = pulpwoodSpecies.version;
+
+export const isScientificName = (name: string) =>
+  /^[A-Z][a-z]+(\s+(×\s*)?[a-z-]+\.?)*$/.test(name);
+
+const normalize = (name: string) =>
+  name.trim().replace(/\s+/g, " ").toLowerCase();
+
+export const findSpecies = (
+  scientificName: string
+): CatalogueSpecies | undefined => {
+  const name = normalize(scientificName);
+  return speciesCatalogue.find(
+    (entry) => normalize(entry.scientificName) === name
+  );
+};
+
+export const searchSpecies = (query: string, limit = 20) => {
+  const text = normalize(query);
+  if (!text) return speciesCatalogue.slice(0, limit);
+  return speciesCatalogue
+    .filter(
+      (entry) =>
+        normalize(entry.scientificName).includes(text) ||
+        entry.commonNames.some((name) => normalize(name).includes(text))
+    )
+    .slice(0, limit);
+};
+
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// The closest listed binomial within a couple of typos, e.g. "Eucalyptus
+// globulous" → "Eucalyptus globulus"
+export const suggestSpecies = (
+  scientificName: string
+): CatalogueSpecies | undefined => {
+  const name = normalize(scientificName);
+  let best: CatalogueSpecies | undefined;
+  let bestDistance = 3;
+  speciesCatalogue.forEach((entry) => {
+    const distance = editDistance(name, normalize(entry.scientificName));
+    if (distance > 0 && distance < bestDistance) {
+      best = entry;
+      bestDistance = distance;
+    }
+  });
+  return best;
+};
+
+export interface SpeciesCheck {
+  error?: string;
+  warning?: string;
+  suggestion?: CatalogueSpecies;
+  cites?: CitesAppendix;
+}
+
+export const checkSpecies = (species: Species): SpeciesCheck => {
+  const name = species.scientificName.trim();
+  if (!name) return { error: "Scientific name is required" };
+  if (!isScientificName(name)) {
+    return {
+      error: 'Write the binomial with a capital genus, e.g. "Acacia mangium"',
+      suggestion: findSpecies(name) || suggestSpecies(name),
+    };
+  }
+  const listed = findSpecies(name);
+  if (listed) return { cites: listed.cites };
+  const suggestion = suggestSpecies(name);
+  return {
+    warning: suggestion
+      ? `Not in the species list; did you mean ${suggestion.scientificName}?`
+      : "Not in the species list; check the spelling",
+    suggestion,
+  };
+};
+
+// Accepts the stored species in any supported form; older submissions and
+// drafts hold "Eucalyptus (Eucalyptus globulus)" or just "Acacia mangium",
+// several separated by ";" or newlines
+export const parseSpecies = (value: unknown): Species[] => {
+  if (Array.isArray(value)) {
+    return value.map((entry: Partial<Species>) => ({
+      commonName: entry.commonName || "",
+      scientificName: entry.scientificName || "",
+    }));
+  }
+  if (typeof value !== "string") return [];
+  return value
+    .split(/[;\n]/)
+    .map((part) => part.trim())
+    .filter((part) => part.length > 0)
+    .map((part): Species => {
+      const match = part.match(/^(.*?)\s*\((.+)\)$/);
+      return match
+        ? { commonName: match[1].trim(), scientificName: match[2].trim() }
+        : { commonName: "", scientificName: part };
+    });
+};
+
+// "Tasmanian blue gum (Eucalyptus globulus)", or the binomial alone
+export const formatSpecies = (species: Species): string =>
+  species.commonName.trim()
+    ? `${species.commonName.trim()} (${species.scientificName.trim()})`
+    : species.scientificName.trim();
+
+export const formatSpeciesList = (value: unknown): string =>
+  parseSpecies(value).map(formatSpecies).join("; ");
@@ -0,0 +1,76 @@
+import { SubmissionStatus } from "../types/submission";
+
+export const statusLabels: Record<SubmissionStatus, string> = {
+  draft: "Draft",
+  submitted: "Submitted",
+  under_review: "Under review",
+  changes_requested: "Changes requested",
+  approved: "Approved",
+  rejected: "Rejected",
+};
+
+export const statusStyles: Record<SubmissionStatus, string> = {
+  draft: "bg-gray-100 text-gray-700",
+  submitted: "bg-blue-100 text-blue-700",
+  under_review: "bg-amber-100 text-amber-800",
+  changes_requested: "bg-orange-100 text-orange-800",
+  approved: "bg-green-100 text-green-700",
+  rejected: "bg-red-100 text-red-700",
+};
+
+// What the status means for the supplier
+export const statusDescriptions: Record<SubmissionStatus, string> = {
+  draft: "Not yet sent to ITC.",
+  submitted: "Waiting for ITC's compliance team to pick it up.",
+  under_review: "ITC's compliance team is reviewing the dossier.",
+  changes_requested:
+    "ITC's compliance team needs corrections or further documents.",
+  approved: "The dossier has been accepted.",
+  rejected: "The dossier has been rejected.",
+};
+
+interface Transition {
+  to: SubmissionStatus;
+  label: string;
+  reviewerOnly: boolean;
+}
+
+export const statusTransitions: Record<SubmissionStatus, Transition[]> = {
+  draft: [{ to: "submitted", label: "Submit", reviewerOnly: false }],
+  submitted: [
+    { to: "under_review", label: "Start review", reviewerOnly: true },
+  ],
+  under_review: [
+    {
+      to: "changes_requested",
+      label: "Request changes",
+      reviewerOnly: true,
+    },
+    { to: "approved", label: "Approve", reviewerOnly: true },
+    { to: "rejected", label: "Reject", reviewerOnly: true },
+  ],
+  changes_requested: [
+    { to: "submitted", label: "Resubmit", reviewerOnly: false },
+  ],
+  approved: [],
+  rejected: [],
+};
+
+// Statuses in which the supplier can still amend the submission
+export const amendableStatuses: SubmissionStatus[] = [
+  "submitted",
+  "under_review",
+  "changes_requested",
+];
+
+// Submissions created before statuses existed have none
+export const getStatus = (status?: SubmissionStatus): SubmissionStatus =>
+  status || "submitted";
+
+export const availableTransitions = (
+  status: SubmissionStatus,
+  isReviewer: boolean
+): Transition[] =>
+  statusTransitions[status].filter(
+    (transition) => isReviewer || !transition.reviewerOnly
+  );
@@ -0,0 +1,127 @@
+import { Draft, createDraftId } from "../services/draftService";
+import {
+  Document,
+  FileData,
+  FormData,
+  LibraryDocument,
+} from "../types/submission";
+import { LibraryAttachments } from "./documentLibrary";
+import { formatGeometry, toGeometry } from "./geo";
+import { toParty } from "./parties";
+import { parseSpecies } from "./species";
+import {
+  fileIdsOf,
+  fileSchema,
+  formSchema,
+  labelFor,
+  sections,
+} from "./submissionSchema";
+
+// The submission's files as references to the files already on the server,
+// optionally without those of transaction-specific categories. Files kept in
+// the document library appear under their library entry.
+const carriedFiles = (
+  document: Document,
+  library: LibraryDocument[],
+  keepTransactional: boolean
+): LibraryAttachments => {
+  const now = new Date().toISOString();
+  return Object.fromEntries(
+    (Object.keys(fileSchema) as Array<keyof FileData>)
+      .filter(
+        (category) => keepTransactional || !fileSchema[category].transactional
+      )
+      .map((category): [keyof FileData, LibraryDocument[]] => {
+        const fileIds = fileIdsOf(document.files?.[category]);
+        return [
+          category,
+          fileIds.map((fileId, index) => {
+            const listed = library.find((entry) => entry.fileId === fileId);
+            if (listed) return listed;
+            const certificate =
+              document.certificates?.[category]?.[index] || undefined;
+            return {
+              fileId,
+              category,
+              fileName:
+                fileIds.length > 1
+                  ? `${labelFor(category)} (${index + 1} of ${fileIds.length})`
+                  : labelFor(category),
+              validFrom: certificate?.issueDate || "",
+              validUntil: certificate?.expiryDate || "",
+              certificate,
+              addedAt: now,
+              lastUsedAt: now,
+            };
+          }),
+        ];
+      })
+      .filter(([_, documents]) => documents.length > 0)
+  );
+};
+
+// A new draft pre-filled from an earlier submission. A duplicate leaves out
+// the shipment-specific values and documents; an amendment keeps everything.
+export const draftFromDocument = (
+  document: Document,
+  userId: string,
+  library: LibraryDocument[] = [],
+  { amend = false }: { amend?: boolean } = {}
+): Draft => {
+  const now = new Date().toISOString();
+  const geometry = toGeometry(document.geolocationPolygon);
+  const copied: FormData = {
+    tradeName: document.tradeName || null,
+    commodities: document.commodities || null,
+    speciesNames: parseSpecies(document.speciesNames),
+    quantity: document.quantity || null,
+    supplierCountry: document.supplierCountry || null,
+    productionCountry: document.productionCountry || null,
+    woodOriginCountry: document.woodOriginCountry || null,
+    geolocationPolygon: geometry,
+    plotAreaHectares: document.plotAreaHectares || null,
+    harvestDates: document.harvestDates || null,
+    supplierDetails: toParty(document.supplierDetails),
+    producerDetails: toParty(document.producerDetails),
+    geolocationOwnerDetails: toParty(document.geolocationOwnerDetails),
+  };
+  const formData = Object.fromEntries(
+    (Object.keys(copied) as Array<keyof FormData>).map((key) => [
+      key,
+      formSchema[key].transactional && !amend
+        ? Array.isArray(copied[key])
+          ? []
+          : null
+        : copied[key],
+    ])
+  ) as unknown as FormData;
+
+  return {
+    id: createDraftId(),
+    userId,
+    name: `${amend ? "Amendment of" : "Copy of"} ${
+      document.tradeName || "untitled submission"
+    }`,
+    formData,
+    fileData: Object.fromEntries(
+      Object.keys(fileSchema).map((category) => [category, []])
+    ) as unknown as FileData,
+    certificates: {},
+    libraryAttachments: carriedFiles(document, library, amend),
+    amendment: amend
+      ? {
+          documentId: document._id,
+          version: document.version || 1,
+          comment: "",
+        }
+      : undefined,
+    geolocationText: geometry
+      ? formatGeometry(geometry)
+      : typeof document.geolocationPolygon === "string"
+      ? document.geolocationPolygon
+      : "",
+    activeTab: sections[0],
+    createdAt: now,
+    updatedAt: now,
+  };
+};
@@ -0,0 +1,368 @@
+import { FormData, FileData, Party, Species } from "../types/submission";
+import { parseCountryRegion } from "./countries";
+import { parseDateRanges } from "./dateRanges";
+import { isPartyEmpty, validateParty } from "./parties";
+import { checkSpecies } from "./species";
+
+export const sections = [
+  "Basic Details",
+  "Location Info",
+  "Contact Details",
+  "Transaction Documents",
+  "Legal Documents",
+  "Compliance",
+  "Review",
+] as const;
+
+export type Section = (typeof sections)[number];
+
+export type FieldFormat =
+  | "text"
+  | "positiveNumber"
+  | "countryRegion"
+  | "geometry"
+  | "dateRanges"
+  | "species"
+  | "party";
+
+export interface FieldRule {
+  label: string;
+  section: Section;
+  required: boolean;
+  format: FieldFormat;
+  // Specific to one shipment, so left out when a submission is duplicated
+  transactional?: boolean;
+}
+
+export interface FileRule {
+  label: string;
+  section: Section;
+  required: boolean;
+  // Per-file limit; defaults to DEFAULT_MAX_FILE_SIZE_MB
+  maxSizeMb?: number;
+  // Each file is a certificate or licence whose validity is recorded
+  certificate?: boolean;
+  // For FSC certificates, the certificate types whose codes are accepted
+  fscCodeTypes?: string[];
+  // The same file is sent with every shipment, so it can be attached from
+  // the account's document library
+  reusable?: boolean;
+  // Specific to one shipment, so left out when a submission is duplicated
+  transactional?: boolean;
+}
+
+export const DEFAULT_MAX_FILE_SIZE_MB = 10;
+
+export type SubmissionKey = keyof FormData | keyof FileData;
+export type ValidationErrors = Partial<Record<SubmissionKey, string>>;
+
+export const formSchema: Record<keyof FormData, FieldRule> = {
+  tradeName: {
+    label: "Trade Name & Type of Pulp",
+    section: "Basic Details",
+    required: true,
+    format: "text",
+  },
+  commodities: {
+    label: "Relevant Commodities Used",
+    section: "Basic Details",
+    required: true,
+    format: "text",
+  },
+  speciesNames: {
+    label: "Common Name & Full Scientific Name of Species",
+    section: "Basic Details",
+    required: true,
+    format: "species",
+  },
+  quantity: {
+    label: "Quantity (In MT)",
+    section: "Basic Details",
+    required: true,
+    format: "positiveNumber",
+    transactional: true,
+  },
+  supplierCountry: {
+    label: "Country & Region of Pulp Supplier",
+    section: "Location Info",
+    required: true,
+    format: "countryRegion",
+  },
+  productionCountry: {
+    label: "Country & Region of Pulp Production",
+    section: "Location Info",
+    required: true,
+    format: "countryRegion",
+  },
+  woodOriginCountry: {
+    label: "Country & Region of Wood Origin",
+    section: "Location Info",
+    required: true,
+    format: "countryRegion",
+  },
+  geolocationPolygon: {
+    label: "Geolocation Polygon of Harvest Areas",
+    section: "Location Info",
+    required: true,
+    format: "geometry",
+  },
+  plotAreaHectares: {
+    label: "Plot Area (ha)",
+    section: "Location Info",
+    required: false,
+    format: "positiveNumber",
+  },
+  harvestDates: {
+    label: "Date/Time Range of Harvesting",
+    section: "Location Info",
+    required: true,
+    format: "dateRanges",
+  },
+  supplierDetails: {
+    label: "Pulp Supplier Details",
+    section: "Contact Details",
+    required: true,
+    format: "party",
+  },
+  producerDetails: {
+    label: "Pulp Producer Details",
+    section: "Contact Details",
+    required: true,
+    format: "party",
+  },
+  geolocationOwnerDetails: {
+    label: "Geolocation Owner Details",
+    section: "Contact Details",
+    required: true,
+    format: "party",
+  },
+};
+
+export const fileSchema: Record<keyof FileData, FileRule> = {
+  geoToProducerInvoice: {
+    label: "Sale Invoice (Geolocation Owner to Producer)",
+    section: "Transaction Documents",
+    required: true,
+  },
+  woodTransportDocs: {
+    label: "Wood Transportation Documents",
+    section: "Transaction Documents",
+    required: true,
+    maxSizeMb: 25,
+  },
+  producerToSupplierInvoice: {
+    label: "Sale Invoice (Producer to Supplier)",
+    section: "Transaction Documents",
+    required: true,
+  },
+  pulpTransportDocs: {
+    label: "Pulp Transportation Documents",
+    section: "Transaction Documents",
+    required: true,
+    maxSizeMb: 25,
+  },
+  supplierToITCInvoice: {
+    label: "Sale Invoice (Supplier to ITC)",
+    section: "Transaction Documents",
+    required: true,
+    transactional: true,
+  },
+  shippingDocs: {
+    label: "Shipping Documents (BL, Customs)",
+    section: "Transaction Documents",
+    required: true,
+    maxSizeMb: 25,
+    transactional: true,
+  },
+  ddsSummary: {
+    label: "Due Diligence System (DDS) Summary",
+    section: "Transaction Documents",
+    required: false,
+    transactional: true,
+  },
+  legalHarvestDocs: {
+    label: "Legal Rights to Harvest Documents",
+    section: "Legal Documents",
+    required: true,
+    maxSizeMb: 25,
+  },
+  fscCertificates: {
+    label: "FSC CW-FM Certificates",
+    section: "Legal Documents",
+    required: false,
+    certificate: true,
+    fscCodeTypes: ["CW/FM", "FM/CW", "CW", "FM", "FM/COC"],
+  },
+  fscCocCertificate: {
+    label: "FSC CoC Certificate of Supplier",
+    section: "Legal Documents",
+    required: false,
+    certificate: true,
+    fscCodeTypes: ["COC", "FM/COC"],
+    reusable: true,
+  },
+  producerDeclaration: {
+    label: "Producer Declaration",
+    section: "Legal Documents",
+    required: true,
+  },
+  producerLicense: {
+    label: "Business License of Producer",
+    section: "Legal Documents",
+    required: true,
+    certificate: true,
+    reusable: true,
+  },
+  supplierLicense: {
+    label: "Business License of Supplier",
+    section: "Legal Documents",
+    required: true,
+    certificate: true,
+    reusable: true,
+  },
+  ghgCertifications: {
+    label: "GHG Emissions Certifications",
+    section: "Compliance",
+    required: false,
+    certificate: true,
+  },
+  safetyCertifications: {
+    label: "Health & Safety Certifications",
+    section: "Compliance",
+    required: false,
+    certificate: true,
+  },
+  humanRightsPolicies: {
+    label: "Human Rights Policies",
+    section: "Compliance",
+    required: false,
+    reusable: true,
+  },
+  employeeRecords: {
+    label: "Employee Records & Benefits",
+    section: "Compliance",
+    required: false,
+  },
+};
+
+export const fieldsInSection = (section: Section) =>
+  (Object.keys(formSchema) as Array<keyof FormData>)
+    .filter((key) => formSchema[key].section === section)
+    .map((key) => ({ name: key, ...formSchema[key] }));
+
+export const filesInSection = (section: Section) =>
+  (Object.keys(fileSchema) as Array<keyof FileData>)
+    .filter((key) => fileSchema[key].section === section)
+    .map((key) => ({ name: key, ...fileSchema[key] }));
+
+const isEmpty = (value: unknown) =>
+  value === null ||
+  value === undefined ||
+  (typeof value === "string" && value.trim() === "") ||
+  (Array.isArray(value) && value.length === 0);
+
+const checkFormat = (format: FieldFormat, value: unknown): string | null => {
+  switch (format) {
+    case "positiveNumber": {
+      const number = Number(value);
+      if (!Number.isFinite(number) || number <= 0) {
+        return "Enter a number greater than zero";
+      }
+      return null;
+    }
+    case "countryRegion": {
+      if (!parseCountryRegion(String(value))) {
+        return "Pick the country from the list";
+      }
+      return null;
+    }
+    case "dateRanges": {
+      const { ranges, errors } = parseDateRanges(String(value));
+      if (errors.length > 0) return errors[0];
+      if (ranges.length === 0) return "Enter at least one date range";
+      return null;
+    }
+    case "species": {
+      const invalid = (value as Species[]).find(
+        (species) => checkSpecies(species).error
+      );
+      return invalid ? checkSpecies(invalid).error || null : null;
+    }
+    case "party": {
+      const errors = Object.values(validateParty(value as Party));
+      return errors.length > 0 ? errors[0] : null;
+    }
+    default:
+      return null;
+  }
+};
+
+export const validateFormField = (
+  key: keyof FormData,
+  value: unknown
+): string | null => {
+  const rule = formSchema[key];
+  const empty =
+    rule.format === "party" ? isPartyEmpty(value as Party) : isEmpty(value);
+  if (empty) {
+    return rule.required ? `${rule.label} is required` : null;
+  }
+  return checkFormat(rule.format, value);
+};
+
+export const validateSubmission = (
+  formData: FormData,
+  fileData: FileData,
+  // Parse errors for the raw geolocation text, which the geometry alone can't express
+  geolocationErrors: string[] = [],
+  // Files attached from the document library, which count towards required
+  // categories
+  libraryFileCounts: Partial<Record<keyof FileData, number>> = {}
+): ValidationErrors => {
+  const errors: ValidationErrors = {};
+
+  (Object.keys(formSchema) as Array<keyof FormData>).forEach((key) => {
+    const message = validateFormField(key, formData[key]);
+    if (message) errors[key] = message;
+  });
+  if (geolocationErrors.length > 0) {
+    errors.geolocationPolygon = geolocationErrors[0];
+  }
+
+  (Object.keys(fileSchema) as Array<keyof FileData>).forEach((key) => {
+    const rule = fileSchema[key];
+    const count = fileData[key].length + (libraryFileCounts[key] || 0);
+    if (rule.required && count === 0) {
+      errors[key] = `${rule.label} is required`;
+    }
+  });
+
+  return errors;
+};
+
+export const labelFor = (key: SubmissionKey): string =>
+  key in formSchema
+    ? formSchema[key as keyof FormData].label
+    : fileSchema[key as keyof FileData].label;
+
+export const sectionFor = (key: SubmissionKey): Section =>
+  key in formSchema
+    ? formSchema[key as keyof FormData].section
+    : fileSchema[key as keyof FileData].section;
+
+export const countErrorsBySection = (
+  errors: ValidationErrors
+): Partial<Record<Section, number>> =>
+  (Object.keys(errors) as SubmissionKey[]).reduce((counts, key) => {
+    const section = sectionFor(key);
+    return { ...counts, [section]: (counts[section] || 0) + 1 };
+  }, {} as Partial<Record<Section, number>>);
+
+// Submitted file references are either a single ID (older submissions) or a list
+export const fileIdsOf = (value: string | string[] | undefined): string[] =>
+  (Array.isArray(value) ? value : [value]).filter(
+    (id): id is string => typeof id === "string" && id.length > 0
+  );
+
+export const maxFileSizeFor = (key: keyof FileData): number =>
+  fileSchema[key].maxSizeMb ?? DEFAULT_MAX_FILE_SIZE_MB;
@@ -0,0 +1,156 @@
+import { DocumentSortField } from "../services/api";
+import { Document, FormData } from "../types/submission";
+import { describeCountryRegion } from "./countries";
+import { downloadBlob } from "./download";
+import { describeGeometry, toGeometry } from "./geo";
+import { formatParty } from "./parties";
+import { formatSpeciesList } from "./species";
+import { statusLabels, getStatus } from "./status";
+import { fileIdsOf, fileSchema, formSchema } from "./submissionSchema";
+
+export type ColumnKey =
+  | keyof FormData
+  | "status"
+  | "createdAt"
+  | "updatedAt"
+  | "completeness";
+
+export interface TableColumn {
+  key: ColumnKey;
+  label: string;
+  // The server sort field when the column can be sorted
+  sortField?: DocumentSortField;
+  value: (document: Document) => string | number;
+}
+
+const fileCategoryCount = Object.keys(fileSchema).length;
+
+// Number of file categories with at least one file
+export const presentFileCategories = (document: Document): number =>
+  Object.keys(fileSchema).filter(
+    (key) => fileIdsOf(document.files?.[key]).length > 0
+  ).length;
+
+const formColumns: TableColumn[] = (
+  Object.keys(formSchema) as Array<keyof FormData>
+).map((key) => ({
+  key,
+  label: formSchema[key].label,
+  sortField:
+    key === "tradeName" || key === "quantity"
+      ? (key as DocumentSortField)
+      : undefined,
+  value: (document) => {
+    if (key === "geolocationPolygon") {
+      const geometry = toGeometry(document.geolocationPolygon);
+      return geometry
+        ? describeGeometry(geometry)
+        : String(document.geolocationPolygon ?? "");
+    }
+    if (formSchema[key].format === "party") {
+      return formatParty(document[key]).join(", ");
+    }
+    if (formSchema[key].format === "species") {
+      return formatSpeciesList(document[key]);
+    }
+    if (formSchema[key].format === "countryRegion") {
+      return describeCountryRegion(document[key] as string | null);
+    }
+    if (key === "quantity" && document.quantity) {
+      const quantity = Number(document.quantity);
+      return Number.isFinite(quantity) ? quantity : document.quantity;
+    }
+    return (document[key] as string | null | undefined) ?? "";
+  },
+}));
+
+export const tableColumns: TableColumn[] = [
+  ...formColumns,
+  {
+    key: "status",
+    label: "Status",
+    sortField: "status",
+    value: (document) => statusLabels[getStatus(document.status)],
+  },
+  {
+    key: "createdAt",
+    label: "Submitted",
+    sortField: "createdAt",
+    value: (document) => document.createdAt.slice(0, 10),
+  },
+  {
+    key: "updatedAt",
+    label: "Last updated",
+    value: (document) => document.updatedAt?.slice(0, 10) ?? "",
+  },
+  {
+    key: "completeness",
+    label: "Documents",
+    value: (document) =>
+      `${presentFileCategories(document)}/${fileCategoryCount}`,
+  },
+];
+
+export const DEFAULT_COLUMNS: ColumnKey[] = [
+  "tradeName",
+  "commodities",
+  "quantity",
+  "woodOriginCountry",
+  "status",
+  "createdAt",
+  "completeness",
+];
+
+export const columnsFor = (keys: ColumnKey[]): TableColumn[] =>
+  tableColumns.filter((column) => keys.includes(column.key));
+
+// Text that Excel would read as a formula is kept as text
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const csvCell = (value: string | number): string => {
+  const text =
+    typeof value === "string" && FORMULA_PREFIX.test(value)
+      ? `'${value}`
+      : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (documents: Document[], columns: TableColumn[]): string =>
+  [
+    columns.map((column) => csvCell(column.label)).join(","),
+    ...documents.map((document) =>
+      columns.map((column) => csvCell(column.value(document))).join(",")
+    ),
+  ].join("\r\n");
+
+export const exportCsv = (
+  documents: Document[],
+  columns: TableColumn[],
+  fileName: string
+) => {
+  // The byte order mark makes Excel read the file as UTF-8
+  downloadBlob(
+    new Blob(["\uFEFF", toCsv(documents, columns)], {
+      type: "text/csv;charset=utf-8",
+    }),
+    `${fileName}.csv`
+  );
+};
+
+export const exportXlsx = async (
+  documents: Document[],
+  columns: TableColumn[],
+  fileName: string
+) => {
+  // Loaded on demand; the spreadsheet library is large
+  const XLSX = await import("xlsx");
+  const sheet = XLSX.utils.aoa_to_sheet([
+    columns.map((column) => column.label),
+    ...documents.map((document) =>
+      columns.map((column) => column.value(document))
+    ),
+  ]);
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, sheet, "Submissions");
+  XLSX.writeFile(workbook, `${fileName}.xlsx`);
+};
@@ -0,0 +1,148 @@
+import { Document, FileData, FormData } from "../types/submission";
+import { describeCountryRegion } from "./countries";
+import { partyName } from "./parties";
+import { fileIdsOf, fileSchema, formSchema } from "./submissionSchema";
+
+// The chain of custody implied by the form: the geolocation owner sells wood
+// to the producer, who sells pulp to the supplier, who sells it to ITC. Each
+// hand-over is evidenced by an invoice and transport documents.
+
+export type PartyId = "owner" | "producer" | "supplier" | "itc";
+
+export interface ChainParty {
+  id: PartyId;
+  role: string;
+  // First line of the party's details, usually the name
+  name: string;
+  location: string;
+  missing: boolean;
+}
+
+export interface ChainEvidence {
+  key: keyof FileData;
+  label: string;
+  count: number;
+}
+
+export interface ChainLink {
+  from: PartyId;
+  to: PartyId;
+  goods: string;
+  evidence: ChainEvidence[];
+  missing: boolean;
+}
+
+export interface CustodyChain {
+  parties: ChainParty[];
+  links: ChainLink[];
+  gaps: string[];
+}
+
+interface PartyDefinition {
+  role: string;
+  details?: keyof FormData;
+  country?: keyof FormData;
+}
+
+const partyDefinitions: Record<PartyId, PartyDefinition> = {
+  owner: {
+    role: "Geolocation owner",
+    details: "geolocationOwnerDetails",
+    country: "woodOriginCountry",
+  },
+  producer: {
+    role: "Pulp producer",
+    details: "producerDetails",
+    country: "productionCountry",
+  },
+  supplier: {
+    role: "Pulp supplier",
+    details: "supplierDetails",
+    country: "supplierCountry",
+  },
+  itc: { role: "ITC" },
+};
+
+// Upstream first
+const partyOrder: PartyId[] = ["owner", "producer", "supplier", "itc"];
+
+const linkDefinitions: Array<{
+  from: PartyId;
+  to: PartyId;
+  goods: string;
+  evidence: Array<keyof FileData>;
+}> = [
+  {
+    from: "owner",
+    to: "producer",
+    goods: "Wood",
+    evidence: ["geoToProducerInvoice", "woodTransportDocs"],
+  },
+  {
+    from: "producer",
+    to: "supplier",
+    goods: "Pulp",
+    evidence: ["producerToSupplierInvoice", "pulpTransportDocs"],
+  },
+  {
+    from: "supplier",
+    to: "itc",
+    goods: "Pulp",
+    evidence: ["supplierToITCInvoice", "shippingDocs"],
+  },
+];
+
+const firstLine = (value: unknown) =>
+  typeof value === "string" ? value.split("\n")[0].trim() : "";
+
+export const buildCustodyChain = (document: Document): CustodyChain => {
+  const gaps: string[] = [];
+
+  const parties = partyOrder.map((id): ChainParty => {
+    const definition = partyDefinitions[id];
+    const name = definition.details
+      ? partyName(document[definition.details])
+      : "ITC Limited";
+    const missing = !name;
+    if (missing && definition.details) {
+      gaps.push(`${formSchema[definition.details].label} are missing`);
+    }
+    return {
+      id,
+      role: definition.role,
+      name,
+      location: definition.country
+        ? describeCountryRegion(firstLine(document[definition.country]))
+        : "",
+      missing,
+    };
+  });
+
+  const roleOf = (id: PartyId) => partyDefinitions[id].role;
+
+  const links = linkDefinitions.map((definition): ChainLink => {
+    const evidence = definition.evidence.map((key) => ({
+      key,
+      label: fileSchema[key].label,
+      count: fileIdsOf(document.files?.[key]).length,
+    }));
+    evidence
+      .filter((item) => item.count === 0)
+      .forEach((item) =>
+        gaps.push(
+          `${roleOf(definition.from)} → ${roleOf(definition.to)}: no ${
+            item.label
+          }`
+        )
+      );
+    return {
+      from: definition.from,
+      to: definition.to,
+      goods: definition.goods,
+      evidence,
+      missing: evidence.some((item) => item.count === 0),
+    };
+  });
+
+  return { parties, links, gaps };
+};
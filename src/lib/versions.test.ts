@@ -0,0 +1,131 @@
+import { Document, Party } from "../types/submission";
+import { diffVersions } from "./versions";
+
+const supplier: Party = {
+  legalName: "Acme Pulp Ltd",
+  registrationNumber: "HRB 12345",
+  vatNumber: "DE123456789",
+  eoriNumber: "",
+  email: "trade@acme.example",
+  phone: "",
+  address: {
+    line1: "1 Mill Road",
+    line2: "",
+    city: "Hamburg",
+    postalCode: "20095",
+    region: "",
+    country: "DE",
+  },
+};
+
+const document = (changes: Partial<Document> = {}): Document => ({
+  _id: "doc-1",
+  createdAt: "2024-01-01T00:00:00.000Z",
+  tradeName: "Bleached kraft",
+  quantity: "120",
+  supplierDetails: supplier,
+  files: { woodTransportDocs: ["a", "b"], fscCocCertificate: "coc" },
+  ...changes,
+});
+
+describe("diffVersions", () => {
+  it("finds nothing between identical versions", () => {
+    expect(diffVersions(document(), document())).toEqual({
+      fields: [],
+      files: [],
+    });
+  });
+
+  it("lists changed fields with their displayed values", () => {
+    const { fields } = diffVersions(
+      document(),
+      document({ quantity: "150", tradeName: " Bleached kraft " })
+    );
+    expect(fields).toEqual([
+      {
+        key: "quantity",
+        label: "Quantity (In MT)",
+        before: "120",
+        after: "150",
+      },
+    ]);
+  });
+
+  it("shows a cleared field as empty", () => {
+    const [change] = diffVersions(
+      document(),
+      document({ tradeName: null })
+    ).fields;
+    expect(change.key).toBe("tradeName");
+    expect(change.after).toBe("");
+  });
+
+  it("ignores the stored key order of parties", () => {
+    const { address, ...rest } = supplier;
+    const reordered = {
+      address: Object.fromEntries(Object.entries(address).reverse()),
+      ...Object.fromEntries(Object.entries(rest).reverse()),
+    } as Party;
+    expect(
+      diffVersions(document(), document({ supplierDetails: reordered })).fields
+    ).toEqual([]);
+  });
+
+  it("finds a change to a party's address", () => {
+    const moved = {
+      ...supplier,
+      address: { ...supplier.address, city: "Bremen" },
+    };
+    expect(
+      diffVersions(document(), document({ supplierDetails: moved })).fields.map(
+        (change) => change.key
+      )
+    ).toEqual(["supplierDetails"]);
+  });
+
+  it("counts files added, removed and replaced per category", () => {
+    const { files } = diffVersions(
+      document(),
+      document({
+        files: {
+          woodTransportDocs: ["a", "c"],
+          shippingDocs: ["bl"],
+        },
+      })
+    );
+    expect(files).toEqual([
+      {
+        category: "woodTransportDocs",
+        label: "Wood Transportation Documents",
+        kind: "replaced",
+        added: 1,
+        removed: 1,
+      },
+      {
+        category: "shippingDocs",
+        label: "Shipping Documents (BL, Customs)",
+        kind: "added",
+        added: 1,
+        removed: 0,
+      },
+      {
+        category: "fscCocCertificate",
+        label: "FSC CoC Certificate of Supplier",
+        kind: "removed",
+        added: 0,
+        removed: 1,
+      },
+    ]);
+  });
+
+  it("ignores files that were only reordered", () => {
+    expect(
+      diffVersions(
+        document(),
+        document({
+          files: { woodTransportDocs: ["b", "a"], fscCocCertificate: ["coc"] },
+        })
+      ).files
+    ).toEqual([]);
+  });
+});
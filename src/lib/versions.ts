@@ -0,0 +1,125 @@
+import { Document, FileData, FormData } from "../types/submission";
+import { describeGeometry, geometryAreaHectares, toGeometry } from "./geo";
+import { toParty } from "./parties";
+import { columnsFor } from "./submissionTable";
+import {
+  fileIdsOf,
+  fileSchema,
+  formSchema,
+  labelFor,
+} from "./submissionSchema";
+
+export interface FieldChange {
+  key: keyof FormData;
+  label: string;
+  // As displayed; empty when the field had no value
+  before: string;
+  after: string;
+}
+
+export type FileChangeKind = "added" | "replaced" | "removed";
+
+// "replaced" when files were both taken out and put in; otherwise files were
+// only added or only removed
+export interface FileChange {
+  category: keyof FileData;
+  label: string;
+  kind: FileChangeKind;
+  added: number;
+  removed: number;
+}
+
+export interface VersionDiff {
+  fields: FieldChange[];
+  files: FileChange[];
+}
+
+export const fileChangeLabels: Record<FileChangeKind, string> = {
+  added: "Added",
+  replaced: "Replaced",
+  removed: "Removed",
+};
+
+export const fileChangeStyles: Record<FileChangeKind, string> = {
+  added: "bg-green-100 text-green-800",
+  replaced: "bg-amber-100 text-amber-800",
+  removed: "bg-red-100 text-red-800",
+};
+
+// The value as shown in the documents table; polygons also give their area,
+// so moved vertices show up as a change
+const displayValue = (document: Document, key: keyof FormData): string => {
+  if (key === "geolocationPolygon") {
+    const geometry = toGeometry(document.geolocationPolygon);
+    if (!geometry) return String(document.geolocationPolygon ?? "");
+    if (geometry.type === "Point") return describeGeometry(geometry);
+    return `${describeGeometry(geometry)}, ${geometryAreaHectares(
+      geometry
+    ).toFixed(2)} ha`;
+  }
+  return String(columnsFor([key])[0].value(document));
+};
+
+// Compares stored values rather than displayed ones, which can hide changes
+const comparableValue = (document: Document, key: keyof FormData): string => {
+  if (key === "geolocationPolygon") {
+    const geometry = toGeometry(document.geolocationPolygon);
+    return geometry
+      ? JSON.stringify(geometry)
+      : String(document.geolocationPolygon ?? "");
+  }
+  if (formSchema[key].format === "party") {
+    // Field by field, so stored key order doesn't count as a change
+    const party = toParty(document[key]);
+    return party
+      ? JSON.stringify([
+          party.legalName,
+          party.registrationNumber,
+          party.vatNumber,
+          party.eoriNumber,
+          party.email,
+          party.phone,
+          party.address.line1,
+          party.address.line2,
+          party.address.city,
+          party.address.postalCode,
+          party.address.region,
+          party.address.country,
+        ])
+      : "";
+  }
+  const value = document[key];
+  return typeof value === "string" ? value.trim() : JSON.stringify(value ?? "");
+};
+
+// What changed from one version of a submission to the next
+export const diffVersions = (
+  previous: Document,
+  next: Document
+): VersionDiff => {
+  const fields = (Object.keys(formSchema) as Array<keyof FormData>)
+    .filter(
+      (key) => comparableValue(previous, key) !== comparableValue(next, key)
+    )
+    .map((key) => ({
+      key,
+      label: labelFor(key),
+      before: displayValue(previous, key),
+      after: displayValue(next, key),
+    }));
+
+  const files = (Object.keys(fileSchema) as Array<keyof FileData>).flatMap(
+    (category): FileChange[] => {
+      const before = fileIdsOf(previous.files?.[category]);
+      const after = fileIdsOf(next.files?.[category]);
+      const added = after.filter((fileId) => !before.includes(fileId)).length;
+      const removed = before.filter((fileId) => !after.includes(fileId)).length;
+      if (added === 0 && removed === 0) return [];
+      const kind: FileChangeKind =
+        added > 0 && removed > 0 ? "replaced" : added > 0 ? "added" : "removed";
+      return [{ category, label: labelFor(category), kind, added, removed }];
+    }
+  );
+
+  return { fields, files };
+};
@@ -0,0 +1,161 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { Card, CardContent } from "../components/ui/card";
+import { Button } from "../components/ui/button";
+import FscRegistryImport from "../components/certificates/FscRegistryImport";
+import FscRegistryStatus from "../components/certificates/FscRegistryStatus";
+import { getAllDocuments } from "../services/api";
+import {
+  FscRegistrySnapshot,
+  getFscRegistry,
+} from "../services/fscRegistryService";
+import { expiringCertificates, isFscCategory } from "../lib/certificates";
+import { indexFscRegistry } from "../lib/fsc";
+import { labelFor } from "../lib/submissionSchema";
+import { cn } from "../lib/utils";
+import { Document } from "../types/submission";
+
+const windows = [30, 60, 90];
+
+export default function CertificateDashboard() {
+  const [documents, setDocuments] = useState<Document[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [withinDays, setWithinDays] = useState(30);
+  const [snapshot, setSnapshot] = useState<FscRegistrySnapshot | null>(null);
+  const fscRegistry = useMemo(
+    () => (snapshot ? indexFscRegistry(snapshot.entries) : null),
+    [snapshot]
+  );
+
+  useEffect(() => {
+    const loadDocuments = async () => {
+      try {
+        setDocuments(await getAllDocuments());
+      } catch (err) {
+        setError("Error loading certificates");
+        console.error(err);
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadDocuments();
+    getFscRegistry()
+      .then((stored) => setSnapshot(stored || null))
+      .catch(() => setSnapshot(null));
+  }, []);
+
+  if (loading) return <div>Loading...</div>;
+  if (error) return <div className="text-red-500">{error}</div>;
+
+  const certificates = expiringCertificates(documents, withinDays);
+  const expiredCount = certificates.filter(
+    (certificate) => certificate.daysLeft < 0
+  ).length;
+
+  return (
+    <div className="max-w-7xl mx-auto p-6">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <h1 className="text-2xl font-bold">Certificate Expiry</h1>
+        <div className="flex gap-2">
+          {windows.map((days) => (
+            <Button
+              key={days}
+              variant={days === withinDays ? "default" : "outline"}
+              size="sm"
+              onClick={() => setWithinDays(days)}
+            >
+              {days} days
+            </Button>
+          ))}
+        </div>
+      </div>
+      <p className="text-gray-600 mb-6">
+        {certificates.length === 0
+          ? `No certificates expire within ${withinDays} days.`
+          : `${certificates.length} certificate${
+              certificates.length === 1 ? "" : "s"
+            } expired or expiring within ${withinDays} days${
+              expiredCount > 0 ? `, ${expiredCount} already expired` : ""
+            }.`}
+      </p>
+      {certificates.length > 0 && (
+        <Card className="shadow-md mb-6">
+          <CardContent className="p-0 overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 text-left">
+                <tr>
+                  <th className="px-4 py-3 font-medium">Expires</th>
+                  <th className="px-4 py-3 font-medium">Certificate</th>
+                  <th className="px-4 py-3 font-medium">Issued by</th>
+                  <th className="px-4 py-3 font-medium">Type</th>
+                  <th className="px-4 py-3 font-medium">Submissions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {certificates.map(
+                  ({ key, category, details, daysLeft, documents }) => (
+                    <tr key={key} className="border-t">
+                      <td className="px-4 py-3 whitespace-nowrap">
+                        <div>{details.expiryDate}</div>
+                        <div
+                          className={cn(
+                            "text-xs font-medium",
+                            daysLeft < 0 ? "text-red-600" : "text-amber-700"
+                          )}
+                        >
+                          {daysLeft < 0
+                            ? `Expired ${-daysLeft} day${
+                                daysLeft === -1 ? "" : "s"
+                              } ago`
+                            : `In ${daysLeft} day${daysLeft === 1 ? "" : "s"}`}
+                        </div>
+                      </td>
+                      <td className="px-4 py-3">
+                        {details.certificateNumber}
+                        {isFscCategory(category) && (
+                          <FscRegistryStatus
+                            code={details.certificateNumber}
+                            registry={fscRegistry}
+                            className="mt-1"
+                          />
+                        )}
+                      </td>
+                      <td className="px-4 py-3">{details.issuer}</td>
+                      <td className="px-4 py-3">{labelFor(category)}</td>
+                      <td className="px-4 py-3">
+                        <ul className="space-y-1">
+                          {documents.map((document) => (
+                            <li key={document._id}>
+                              <Link
+                                to={`/documents/${document._id}`}
+                                className="text-indigo-600 hover:text-indigo-500"
+                              >
+                                {document.tradeName || "Untitled"}
+                              </Link>
+                            </li>
+                          ))}
+                        </ul>
+                      </td>
+                    </tr>
+                  )
+                )}
+              </tbody>
+            </table>
+          </CardContent>
+        </Card>
+      )}
+      <Card className="shadow-md">
+        <CardContent className="p-6">
+          <h2 className="text-lg font-semibold mb-2">FSC registry snapshot</h2>
+          <p className="text-sm text-gray-600 mb-4">
+            FSC certificate and licence codes on submissions are cross-checked
+            against this copy of the FSC public certificate database. Import a
+            fresh export regularly so suspensions and terminations show up.
+          </p>
+          <FscRegistryImport snapshot={snapshot} onChange={setSnapshot} />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
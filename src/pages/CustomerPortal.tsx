@@ -1,71 +1,124 @@
-import React, { useState, ChangeEvent } from "react";
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  ChangeEvent,
+} from "react";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
+import { ArrowDown, ArrowUp, Library, X } from "lucide-react";
 import { Button } from "../components/ui/button";
 import { Card, CardContent } from "../components/ui/card";
 import { Input } from "../components/ui/input";
-import { Textarea } from "../components/ui/textarea";
 import { Label } from "../components/ui/label";
+import { Textarea } from "../components/ui/textarea";
 import {
   Tabs,
   TabsList,
   TabsTrigger,
   TabsContent,
 } from "../components/ui/tabs";
-import { submitDocument } from "../services/api";
-
-interface FormData {
-  // Basic Details
-  tradeName: string | null;
-  commodities: string | null;
-  speciesNames: string | null;
-  quantity: string | null;
-
-  // Location Info
-  supplierCountry: string | null;
-  productionCountry: string | null;
-  woodOriginCountry: string | null;
-  geolocationPolygon: string | null;
-  harvestDates: string | null;
-
-  // Contact Details
-  supplierDetails: string | null;
-  producerDetails: string | null;
-  geolocationOwnerDetails: string | null;
-}
-
-interface FileData {
-  // Transaction Documents
-  geoToProducerInvoice: File | null;
-  woodTransportDocs: File | null;
-  producerToSupplierInvoice: File | null;
-  pulpTransportDocs: File | null;
-  supplierToITCInvoice: File | null;
-  shippingDocs: File | null;
-  ddsSummary: File | null;
-
-  // Legal Documents
-  legalHarvestDocs: File | null;
-  fscCertificates: File | null;
-  fscCocCertificate: File | null;
-  producerDeclaration: File | null;
-  producerLicense: File | null;
-  supplierLicense: File | null;
-
-  // Compliance Documents
-  ghgCertifications: File | null;
-  safetyCertifications: File | null;
-  humanRightsPolicies: File | null;
-  employeeRecords: File | null;
-}
+import GeolocationInput from "../components/geo/GeolocationInput";
+import PlotMap from "../components/geo/PlotMap";
+import DateRangesPicker from "../components/dates/DateRangesPicker";
+import CountryRegionPicker from "../components/geo/CountryRegionPicker";
+import FileViewer from "../components/documents/FileViewer";
+import PartyForm from "../components/parties/PartyForm";
+import SpeciesPicker from "../components/species/SpeciesPicker";
+import CertificateFields from "../components/certificates/CertificateFields";
+import LibraryPicker from "../components/library/LibraryPicker";
+import RiskAssessmentPanel from "../components/documents/RiskAssessmentPanel";
+import { FileUploadState, submitDocument, uploadKey } from "../services/api";
+import { getCurrentUser } from "../services/authService";
+import {
+  Amendment,
+  Draft,
+  createDraftId,
+  deleteDraft,
+  getDraft,
+  listDrafts,
+  saveDraft,
+} from "../services/draftService";
+import {
+  forgetParty,
+  listAddressBook,
+  rememberParties,
+} from "../services/addressBookService";
+import { getFscRegistry } from "../services/fscRegistryService";
+import {
+  listLibrary,
+  rememberDocuments,
+} from "../services/documentLibraryService";
+import {
+  AddressBookEntry,
+  CertificateDetails,
+  FormData,
+  FileData,
+  LibraryDocument,
+  Party,
+  Species,
+} from "../types/submission";
+import {
+  Section,
+  SubmissionKey,
+  countErrorsBySection,
+  fieldsInSection,
+  filesInSection,
+  labelFor,
+  maxFileSizeFor,
+  sectionFor,
+  sections,
+  validateSubmission,
+} from "../lib/submissionSchema";
+import { cn } from "../lib/utils";
+import { describeCountryRegion } from "../lib/countries";
+import { formatSpeciesList } from "../lib/species";
+import {
+  certificateCategories,
+  certificatesPayload,
+  isCertificateCategory,
+  isExpired,
+  isFscCategory,
+  validateCertificate,
+  validateCertificates,
+} from "../lib/certificates";
+import {
+  FscRegistryIndex,
+  fscStatusLabels,
+  indexFscRegistry,
+  lookupFscCode,
+} from "../lib/fsc";
+import {
+  LibraryAttachments,
+  isReusableCategory,
+  libraryDocument,
+  reusableCategories,
+  libraryFileCounts,
+  libraryFileIds,
+} from "../lib/documentLibrary";
+import { assessRisk, riskInputFromForm } from "../lib/riskAssessment";
+import { hashFile, validateFile } from "../lib/fileValidation";
+import { formatParty, isPartyEmpty } from "../lib/parties";
+import {
+  Geometry,
+  describeGeometry,
+  formatGeometry,
+  normalizeGeometry,
+  parseGeolocation,
+  validateGeometry,
+} from "../lib/geo";
 
 const initialFormData: FormData = {
   tradeName: null,
   commodities: null,
-  speciesNames: null,
+  speciesNames: [],
   quantity: null,
   supplierCountry: null,
   productionCountry: null,
   woodOriginCountry: null,
   geolocationPolygon: null,
+  plotAreaHectares: null,
   harvestDates: null,
   supplierDetails: null,
   producerDetails: null,
@@ -73,64 +126,438 @@ const initialFormData: FormData = {
 };
 
 const initialFileData: FileData = {
-  geoToProducerInvoice: null,
-  woodTransportDocs: null,
-  producerToSupplierInvoice: null,
-  pulpTransportDocs: null,
-  supplierToITCInvoice: null,
-  shippingDocs: null,
-  ddsSummary: null,
-  legalHarvestDocs: null,
-  fscCertificates: null,
-  fscCocCertificate: null,
-  producerDeclaration: null,
-  producerLicense: null,
-  supplierLicense: null,
-  ghgCertifications: null,
-  safetyCertifications: null,
-  humanRightsPolicies: null,
-  employeeRecords: null,
+  geoToProducerInvoice: [],
+  woodTransportDocs: [],
+  producerToSupplierInvoice: [],
+  pulpTransportDocs: [],
+  supplierToITCInvoice: [],
+  shippingDocs: [],
+  ddsSummary: [],
+  legalHarvestDocs: [],
+  fscCertificates: [],
+  fscCocCertificate: [],
+  producerDeclaration: [],
+  producerLicense: [],
+  supplierLicense: [],
+  ghgCertifications: [],
+  safetyCertifications: [],
+  humanRightsPolicies: [],
+  employeeRecords: [],
 };
 
-const sections = [
-  "Basic Details",
-  "Location Info",
-  "Contact Details",
-  "Transaction Documents",
-  "Legal Documents",
-  "Compliance",
-  "Review",
-];
-
 export default function CustomerPortal() {
-  const [activeTab, setActiveTab] = useState(sections[0]);
+  const [activeTab, setActiveTab] = useState<Section>(sections[0]);
   const [formData, setFormData] = useState<FormData>(initialFormData);
   const [fileData, setFileData] = useState<FileData>(initialFileData);
   const [error, setError] = useState("");
+  const [geolocationText, setGeolocationText] = useState("");
+  const [geolocationErrors, setGeolocationErrors] = useState<string[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [viewerFile, setViewerFile] = useState<File | null>(null);
+  const [uploadStates, setUploadStates] = useState<
+    Record<string, FileUploadState>
+  >({});
+  const uploadControllers = useRef<Record<string, AbortController>>({});
+  // Files rejected by the pre-upload checks, per category
+  const [fileErrors, setFileErrors] = useState<
+    Partial<Record<keyof FileData, string[]>>
+  >({});
+  const [checkingFiles, setCheckingFiles] = useState<
+    Partial<Record<keyof FileData, boolean>>
+  >({});
+  const fileHashes = useRef<Record<string, string>>({});
+  // Validity of certificate uploads, keyed by uploadKey
+  const [certificates, setCertificates] = useState<
+    Record<string, CertificateDetails>
+  >({});
+  // Files already on the server, attached from the document library or
+  // carried over from a duplicated submission, instead of uploaded
+  const [libraryAttachments, setLibraryAttachments] =
+    useState<LibraryAttachments>({});
+  const [fscRegistry, setFscRegistry] = useState<FscRegistryIndex | null>(null);
   const [submissions, setSubmissions] = useState<
     Array<{ formData: FormData; fileData: FileData }>
   >([]);
 
+  // Validation
+  const [touched, setTouched] = useState<Partial<Record<SubmissionKey, true>>>(
+    {}
+  );
+  const [submitAttempted, setSubmitAttempted] = useState(false);
+  const validationErrors = useMemo(
+    () => ({
+      ...validateSubmission(
+        formData,
+        fileData,
+        geolocationErrors,
+        libraryFileCounts(libraryAttachments)
+      ),
+      ...validateCertificates(fileData, certificates),
+    }),
+    [formData, fileData, geolocationErrors, certificates, libraryAttachments]
+  );
+  const errorCounts = countErrorsBySection(validationErrors);
+  const missingItems = Object.keys(validationErrors) as SubmissionKey[];
+
+  const fieldError = (key: SubmissionKey) =>
+    submitAttempted || touched[key] ? validationErrors[key] : undefined;
+
+  const touch = (key: SubmissionKey) =>
+    setTouched((prev) => ({ ...prev, [key]: true }));
+
+  // Draft autosave
+  const userId = getCurrentUser()?.user.id;
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [draftId, setDraftId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState("");
+  const [draftCreatedAt, setDraftCreatedAt] = useState<string | null>(null);
+  const [draftSavedAt, setDraftSavedAt] = useState<string | null>(null);
+  const [isDirty, setIsDirty] = useState(false);
+  const [resumableDrafts, setResumableDrafts] = useState<Draft[]>([]);
+  const [amendment, setAmendment] = useState<Amendment | null>(null);
+  const navigate = useNavigate();
+  const [addressBook, setAddressBook] = useState<AddressBookEntry[]>([]);
+  const [library, setLibrary] = useState<LibraryDocument[]>([]);
+
+  const requestedDraftId = searchParams.get("draft");
+
+  const applyDraft = useCallback((draft: Draft) => {
+    setUploadStates({});
+    setFileErrors({});
+    setDraftId(draft.id);
+    setDraftName(draft.name);
+    setDraftCreatedAt(draft.createdAt);
+    setDraftSavedAt(draft.updatedAt);
+    setFormData({ ...initialFormData, ...draft.formData });
+    setFileData({ ...initialFileData, ...draft.fileData });
+    setCertificates(draft.certificates);
+    setLibraryAttachments(draft.libraryAttachments);
+    setAmendment(draft.amendment || null);
+    setGeolocationText(draft.geolocationText);
+    setGeolocationErrors(
+      draft.geolocationText.trim()
+        ? parseGeolocation(draft.geolocationText).errors
+        : []
+    );
+    setActiveTab(
+      (sections as readonly string[]).includes(draft.activeTab)
+        ? (draft.activeTab as Section)
+        : sections[0]
+    );
+    setIsDirty(false);
+    setResumableDrafts([]);
+  }, []);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    if (requestedDraftId) {
+      getDraft(requestedDraftId)
+        .then((draft) => {
+          if (draft && draft.userId === userId) {
+            applyDraft(draft);
+          } else {
+            setError("That draft could not be found.");
+          }
+        })
+        .catch(() => setError("Failed to load draft"));
+      return;
+    }
+
+    listDrafts(userId)
+      .then(setResumableDrafts)
+      .catch(() => setResumableDrafts([]));
+  }, [userId, requestedDraftId, applyDraft]);
+
+  useEffect(() => {
+    listAddressBook(userId)
+      .then(setAddressBook)
+      .catch(() => setAddressBook([]));
+    listLibrary(userId)
+      .then(setLibrary)
+      .catch(() => setLibrary([]));
+  }, [userId]);
+
+  useEffect(() => {
+    getFscRegistry()
+      .then((snapshot) =>
+        setFscRegistry(snapshot ? indexFscRegistry(snapshot.entries) : null)
+      )
+      .catch(() => setFscRegistry(null));
+  }, []);
+
+  // Paused while submitting, so a save during the uploads can't recreate the
+  // draft that the submission is about to delete
+  useEffect(() => {
+    if (!userId || !isDirty || isSubmitting) return;
+
+    const timer = setTimeout(async () => {
+      const id = draftId || createDraftId();
+      const now = new Date().toISOString();
+      const createdAt = draftCreatedAt || now;
+      if (!draftId) {
+        setDraftId(id);
+        setDraftCreatedAt(createdAt);
+      }
+      try {
+        await saveDraft({
+          id,
+          userId,
+          name:
+            draftName.trim() ||
+            formData.tradeName ||
+            `Draft of ${new Date(createdAt).toLocaleDateString()}`,
+          formData,
+          fileData,
+          certificates,
+          libraryAttachments,
+          amendment: amendment || undefined,
+          geolocationText,
+          activeTab,
+          createdAt,
+          updatedAt: now,
+        });
+        setDraftSavedAt(now);
+      } catch (err) {
+        setDraftSavedAt(null);
+      }
+    }, 1000);
+
+    return () => clearTimeout(timer);
+  }, [
+    userId,
+    isDirty,
+    isSubmitting,
+    draftId,
+    draftName,
+    draftCreatedAt,
+    formData,
+    fileData,
+    certificates,
+    libraryAttachments,
+    amendment,
+    geolocationText,
+    activeTab,
+  ]);
+
+  const resetForm = () => {
+    setFormData(initialFormData);
+    setFileData(initialFileData);
+    setCertificates({});
+    setLibraryAttachments({});
+    setAmendment(null);
+    setFileErrors({});
+    setGeolocationText("");
+    setGeolocationErrors([]);
+    setActiveTab(sections[0]);
+    setTouched({});
+    setSubmitAttempted(false);
+    setDraftId(null);
+    setDraftName("");
+    setDraftCreatedAt(null);
+    setDraftSavedAt(null);
+    setIsDirty(false);
+    setUploadStates({});
+  };
+
+  const handleNewDraft = () => {
+    resetForm();
+    if (requestedDraftId) setSearchParams({});
+  };
+
   const handleInputChange = (
     e: ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
   ) => {
     const { name, value } = e.target;
     setFormData((prev) => ({ ...prev, [name]: value }));
+    touch(name as SubmissionKey);
+    setIsDirty(true);
   };
 
-  const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
-    const { name, files } = e.target;
-    if (files && files[0]) {
-      setFileData((prev) => ({ ...prev, [name]: files[0] }));
+  const hashOf = async (category: string, file: File) => {
+    const key = uploadKey(category, file);
+    let hash = fileHashes.current[key];
+    if (!hash) {
+      hash = await hashFile(file);
+      fileHashes.current[key] = hash;
     }
+    return hash;
+  };
+
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const name = e.target.name as keyof FileData;
+    const added = Array.from(e.target.files || []);
+    // Allow the same file to be picked again after removing it
+    e.target.value = "";
+    if (added.length === 0) return;
+
+    setCheckingFiles((prev) => ({ ...prev, [name]: true }));
+    try {
+      // Content hashes of everything already attached, in any category
+      const attached = new Map<string, string>();
+      for (const [category, files] of Object.entries(fileData) as Array<
+        [keyof FileData, File[]]
+      >) {
+        for (const file of files) {
+          attached.set(await hashOf(category, file), labelFor(category));
+        }
+      }
+
+      const accepted: File[] = [];
+      const rejected: string[] = [];
+      for (const file of added) {
+        const problem = await validateFile(file, maxFileSizeFor(name));
+        if (problem) {
+          rejected.push(problem);
+          continue;
+        }
+        const hash = await hashOf(name, file);
+        const duplicateOf = attached.get(hash);
+        if (duplicateOf) {
+          rejected.push(
+            `${file.name} is already attached under ${duplicateOf}`
+          );
+          continue;
+        }
+        attached.set(hash, labelFor(name));
+        accepted.push(file);
+      }
+
+      setFileErrors((prev) => ({ ...prev, [name]: rejected }));
+      if (accepted.length > 0) {
+        setFileData((prev) => ({
+          ...prev,
+          [name]: [...prev[name], ...accepted],
+        }));
+        setIsDirty(true);
+      }
+      touch(name);
+    } catch (err) {
+      console.error("Error checking files:", err);
+      setFileErrors((prev) => ({
+        ...prev,
+        [name]: ["The selected files could not be checked. Please try again."],
+      }));
+    } finally {
+      setCheckingFiles((prev) => ({ ...prev, [name]: false }));
+    }
+  };
+
+  const handleRemoveFile = (name: keyof FileData, index: number) => {
+    setFileData((prev) => ({
+      ...prev,
+      [name]: prev[name].filter((_, i) => i !== index),
+    }));
+    setFileErrors((prev) => ({ ...prev, [name]: [] }));
+    touch(name);
+    setIsDirty(true);
+  };
+
+  const handleMoveFile = (
+    name: keyof FileData,
+    index: number,
+    offset: number
+  ) => {
+    setFileData((prev) => {
+      const files = [...prev[name]];
+      const target = index + offset;
+      if (target < 0 || target >= files.length) return prev;
+      [files[index], files[target]] = [files[target], files[index]];
+      return { ...prev, [name]: files };
+    });
+    setIsDirty(true);
+  };
+
+  const handleCertificateChange = (
+    key: string,
+    details: CertificateDetails
+  ) => {
+    setCertificates((prev) => ({ ...prev, [key]: details }));
+    setIsDirty(true);
+  };
+
+  const handleAttachFromLibrary = (document: LibraryDocument) => {
+    setLibraryAttachments((prev) => ({
+      ...prev,
+      [document.category]: [...(prev[document.category] || []), document],
+    }));
+    touch(document.category);
+    setIsDirty(true);
+  };
+
+  const handleDetachFromLibrary = (name: keyof FileData, fileId: string) => {
+    setLibraryAttachments((prev) => ({
+      ...prev,
+      [name]: (prev[name] || []).filter(
+        (document) => document.fileId !== fileId
+      ),
+    }));
+    touch(name);
+    setIsDirty(true);
+  };
+
+  const handlePartyChange = (name: keyof FormData, party: Party) => {
+    setFormData((prev) => ({ ...prev, [name]: party }));
+    touch(name);
+    setIsDirty(true);
+  };
+
+  const handleSpeciesChange = (species: Species[]) => {
+    setFormData((prev) => ({ ...prev, speciesNames: species }));
+    touch("speciesNames");
+    setIsDirty(true);
+  };
+
+  const handleValueChange = (name: keyof FormData, value: string) => {
+    setFormData((prev) => ({ ...prev, [name]: value }));
+    touch(name);
+    setIsDirty(true);
+  };
+
+  // Only a point has a declared plot area; a polygon's area is computed
+  const withGeometry = (
+    data: FormData,
+    geometry: Geometry | null
+  ): FormData => ({
+    ...data,
+    geolocationPolygon: geometry,
+    plotAreaHectares: geometry?.type === "Point" ? data.plotAreaHectares : null,
+  });
+
+  const handleGeolocationChange = (
+    text: string,
+    geometry: Geometry | null,
+    errors: string[]
+  ) => {
+    setIsDirty(true);
+    touch("geolocationPolygon");
+    setGeolocationText(text);
+    setFormData((prev) => withGeometry(prev, geometry));
+    setGeolocationErrors(errors);
+  };
+
+  // Edits made on the map are written back to the text field as GeoJSON
+  const handleMapChange = (geometry: Geometry | null) => {
+    setIsDirty(true);
+    touch("geolocationPolygon");
+    setGeolocationText(geometry ? formatGeometry(geometry) : "");
+    setFormData((prev) => withGeometry(prev, geometry));
+    setGeolocationErrors(geometry ? validateGeometry(geometry) : []);
   };
 
   const handleTabChange = (value: string) => {
-    setActiveTab(value);
+    setActiveTab(value as Section);
   };
 
   const handleSubmit = async () => {
+    setSubmitAttempted(true);
+    if (missingItems.length > 0) {
+      setError(
+        "Some required items are missing or invalid. See the summary below."
+      );
+      return;
+    }
+
     try {
       setIsSubmitting(true);
       setError("");
@@ -144,13 +571,68 @@ export default function CustomerPortal() {
         }),
         initialFormData
       );
+      if (preparedFormData.geolocationPolygon) {
+        preparedFormData.geolocationPolygon = normalizeGeometry(
+          preparedFormData.geolocationPolygon
+        );
+      }
+      if (preparedFormData.geolocationPolygon?.type !== "Point") {
+        preparedFormData.plotAreaHectares = null;
+      }
 
       console.log("Prepared Form Data:", preparedFormData);
       console.log("File Data:", fileData);
 
       console.log("Submitting to backend...");
       // Submit to backend
-      const result = await submitDocument(preparedFormData, fileData);
+      const uploadedFileIds = Object.entries(uploadStates).reduce(
+        (acc, [key, state]) =>
+          state.status === "done" && state.fileId
+            ? { ...acc, [key]: state.fileId }
+            : acc,
+        {} as Record<string, string>
+      );
+      uploadControllers.current = Object.entries(fileData).reduce(
+        (acc, [category, files]) => ({
+          ...acc,
+          ...Object.fromEntries(
+            (files as File[]).map((file) => [
+              uploadKey(category, file),
+              new AbortController(),
+            ])
+          ),
+        }),
+        {} as Record<string, AbortController>
+      );
+      const signals = Object.entries(uploadControllers.current).reduce(
+        (acc, [key, controller]) => ({ ...acc, [key]: controller.signal }),
+        {} as Record<string, AbortSignal>
+      );
+
+      // File IDs of this attempt's uploads, for the document library
+      const fileIds: Record<string, string> = {};
+      const result = await submitDocument(
+        {
+          ...preparedFormData,
+          certificates: certificatesPayload(
+            fileData,
+            certificates,
+            libraryAttachments
+          ),
+          ...(amendment && { comment: amendment.comment.trim() || null }),
+        },
+        fileData,
+        {
+          uploadedFileIds,
+          existingFileIds: libraryFileIds(libraryAttachments),
+          amendDocumentId: amendment?.documentId,
+          signals,
+          onUploadStateChange: (key, state) => {
+            if (state.fileId) fileIds[key] = state.fileId;
+            setUploadStates((prev) => ({ ...prev, [key]: state }));
+          },
+        }
+      );
       console.log("Submission result:", result);
 
       if (result.success) {
@@ -160,11 +642,61 @@ export default function CustomerPortal() {
           { formData: preparedFormData, fileData },
         ]);
 
+        // A failed address book or library request mustn't turn an accepted
+        // submission into an error that invites resubmitting
+        await Promise.all([
+          rememberParties(
+            userId,
+            [
+              preparedFormData.supplierDetails,
+              preparedFormData.producerDetails,
+              preparedFormData.geolocationOwnerDetails,
+            ].filter((party): party is Party => party !== null)
+          )
+            .then(setAddressBook)
+            .catch(() => undefined),
+
+          // Reusable uploads join the library, so later submissions can
+          // attach them instead of uploading them again
+          rememberDocuments(userId, [
+            ...reusableCategories.flatMap(
+              (category) => libraryAttachments[category] || []
+            ),
+            ...(Object.entries(fileData) as Array<[keyof FileData, File[]]>)
+              .filter(([category]) => isReusableCategory(category))
+              .flatMap(([category, files]) =>
+                files
+                  .filter((file) => fileIds[uploadKey(category, file)])
+                  .map((file) =>
+                    libraryDocument(
+                      category,
+                      file,
+                      fileIds[uploadKey(category, file)],
+                      isCertificateCategory(category)
+                        ? certificates[uploadKey(category, file)]
+                        : undefined
+                    )
+                  )
+              ),
+          ])
+            .then(setLibrary)
+            .catch(() => undefined),
+        ]);
+
+        // The draft has become a submission
+        if (draftId) {
+          await deleteDraft(draftId).catch(() => undefined);
+        }
+        if (requestedDraftId) setSearchParams({});
+
         // Reset form
-        setFormData(initialFormData);
-        setFileData(initialFileData);
-        setActiveTab(sections[0]);
-        alert("Form submitted successfully!");
+        resetForm();
+        if (amendment) {
+          alert(`Saved as version ${amendment.version + 1}.`);
+          navigate(`/documents/${amendment.documentId}`);
+        } else {
+          alert("Form submitted successfully!");
+        }
       } else {
         throw new Error(result.error || "Submission failed");
       }
@@ -179,27 +711,204 @@ export default function CustomerPortal() {
     }
   };
 
-  const FileUploadField = ({
+  const handleCancelUpload = (key: string) => {
+    uploadControllers.current[key]?.abort();
+  };
+
+  const riskAssessment = assessRisk(
+    riskInputFromForm(formData, fileData, libraryFileCounts(libraryAttachments))
+  );
+
+  // Certificate details of every attached and uploaded certificate file
+  const certificateEntries = certificateCategories.flatMap((category) => [
+    ...(libraryAttachments[category] || []).map((document) => ({
+      key: `library:${document.fileId}`,
+      category,
+      label: `${labelFor(category)}: ${document.fileName}`,
+      details: document.certificate,
+    })),
+    ...fileData[category].map((file) => ({
+      key: uploadKey(category, file),
+      category,
+      label: `${labelFor(category)}: ${file.name}`,
+      details: certificates[uploadKey(category, file)],
+    })),
+  ]);
+
+  const expiredCertificates = certificateEntries.flatMap(
+    ({ details, ...entry }) =>
+      details && isExpired(details) ? [{ ...entry, details }] : []
+  );
+
+  // FSC codes the registry snapshot lists as anything but valid, or not at all
+  const fscRegistryIssues = fscRegistry
+    ? certificateEntries.flatMap(({ key, category, label, details }) => {
+        if (
+          !isFscCategory(category) ||
+          !details ||
+          validateCertificate(details, category).certificateNumber
+        ) {
+          return [];
+        }
+        const entry = lookupFscCode(fscRegistry, details.certificateNumber);
+        if (entry && entry.status === "valid") return [];
+        return [
+          {
+            key,
+            label,
+            code: details.certificateNumber,
+            problem: entry
+              ? fscStatusLabels[entry.status].toLowerCase()
+              : "not found in the registry snapshot",
+          },
+        ];
+      })
+    : [];
+
+  // Upload progress for the files currently selected, in category order
+  const uploadEntries = (Object.entries(fileData) as Array<[string, File[]]>)
+    .flatMap(([category, files]) =>
+      files.map((file) => ({
+        key: uploadKey(category, file),
+        label: `${labelFor(category as SubmissionKey)}: ${file.name}`,
+      }))
+    )
+    .filter(({ key }) => uploadStates[key])
+    .map((entry) => ({ ...entry, state: uploadStates[entry.key] }));
+
+  const hasFailedUploads = uploadEntries.some(
+    ({ state }) => state.status === "error" || state.status === "cancelled"
+  );
+
+  const uploadStatusText = (state: FileUploadState) => {
+    switch (state.status) {
+      case "uploading":
+        return `${state.progress}%`;
+      case "retrying":
+        return "Retrying...";
+      case "done":
+        return "Uploaded";
+      case "cancelled":
+        return "Cancelled";
+      case "error":
+        return state.error || "Failed";
+      default:
+        return "Waiting";
+    }
+  };
+
+  const FieldError = ({ name }: { name: SubmissionKey }) => {
+    const message = fieldError(name);
+    return message ? (
+      <p className="text-sm text-red-500 mt-1">{message}</p>
+    ) : null;
+  };
+
+  // A render function rather than a component, so the certificate inputs
+  // keep their focus across re-renders
+  const renderFileUploadField = ({
     name,
     label,
+    required,
   }: {
     name: keyof FileData;
     label: string;
+    required: boolean;
   }) => (
-    <div className="space-y-2">
-      <Label className="text-base font-medium">{label}</Label>
+    <div key={name} className="space-y-2">
+      <Label className="text-base font-medium">
+        {label}
+        {required && <span className="text-red-500"> *</span>}
+      </Label>
       <Input
         type="file"
         name={name}
+        multiple
         onChange={handleFileChange}
-        className="cursor-pointer"
+        className={cn("cursor-pointer", fieldError(name) && "border-red-500")}
         accept=".pdf,.doc,.docx,.jpg,.jpeg,.png"
+        disabled={checkingFiles[name]}
       />
-      {fileData[name] && (
-        <p className="text-sm text-green-600">
-          File selected: {fileData[name]?.name}
+      <p className="text-sm text-gray-500">
+        {checkingFiles[name]
+          ? "Checking files..."
+          : `PDF, JPG, PNG, DOC or DOCX, up to ${maxFileSizeFor(name)} MB each`}
+      </p>
+      {fileErrors[name]?.map((message) => (
+        <p key={message} className="text-sm text-red-500">
+          {message}
         </p>
+      ))}
+      {(isReusableCategory(name) ||
+        (libraryAttachments[name] || []).length > 0) && (
+        <LibraryPicker
+          id={name}
+          documents={library.filter((document) => document.category === name)}
+          attached={libraryAttachments[name] || []}
+          onAttach={handleAttachFromLibrary}
+          onDetach={(fileId) => handleDetachFromLibrary(name, fileId)}
+        />
+      )}
+      {fileData[name].length > 0 && (
+        <ul className="grid gap-1">
+          {fileData[name].map((file, index) => (
+            <li
+              key={uploadKey(name, file)}
+              className="rounded bg-gray-50 px-3 py-1 text-sm"
+            >
+              <div className="flex items-center gap-2">
+                <span className="flex-1 truncate text-green-600">
+                  {index + 1}. {file.name}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => handleMoveFile(name, index, -1)}
+                  disabled={index === 0}
+                  aria-label={`Move ${file.name} up`}
+                >
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => handleMoveFile(name, index, 1)}
+                  disabled={index === fileData[name].length - 1}
+                  aria-label={`Move ${file.name} down`}
+                >
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => handleRemoveFile(name, index)}
+                  aria-label={`Remove ${file.name}`}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+              {isCertificateCategory(name) && (
+                <div className="pb-2">
+                  <CertificateFields
+                    id={uploadKey(name, file)}
+                    category={name}
+                    value={certificates[uploadKey(name, file)]}
+                    onChange={(details) =>
+                      handleCertificateChange(uploadKey(name, file), details)
+                    }
+                    showAllErrors={submitAttempted}
+                    fscRegistry={fscRegistry}
+                  />
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
       )}
+      <FieldError name={name} />
     </div>
   );
 
@@ -209,8 +918,70 @@ export default function CustomerPortal() {
         <CardContent className="p-6">
           <div className="flex justify-between items-center mb-6">
             <h2 className="text-2xl font-semibold">Pulp Documentation Form</h2>
+            <div className="flex items-center gap-3">
+              <Input
+                value={draftName}
+                onChange={(e) => {
+                  setDraftName(e.target.value);
+                  setIsDirty(true);
+                }}
+                placeholder="Draft name"
+                className="w-56"
+              />
+              <span className="text-sm text-gray-500 whitespace-nowrap">
+                {draftSavedAt
+                  ? `Draft saved ${new Date(draftSavedAt).toLocaleTimeString()}`
+                  : "Not saved yet"}
+              </span>
+              <Button variant="outline" size="sm" onClick={handleNewDraft}>
+                New draft
+              </Button>
+            </div>
           </div>
 
+          {!draftId && resumableDrafts.length > 0 && (
+            <div className="bg-blue-50 text-blue-800 p-4 rounded-md mb-6 flex flex-wrap items-center justify-between gap-4">
+              <span>
+                You have {resumableDrafts.length} saved draft
+                {resumableDrafts.length === 1 ? "" : "s"}. Resume "
+                {resumableDrafts[0].name}", last saved{" "}
+                {new Date(resumableDrafts[0].updatedAt).toLocaleString()}?
+              </span>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  onClick={() => applyDraft(resumableDrafts[0])}
+                >
+                  Resume draft
+                </Button>
+                <Button asChild variant="outline" size="sm">
+                  <Link to="/drafts">All drafts</Link>
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setResumableDrafts([])}
+                >
+                  Dismiss
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {amendment && (
+            <div className="bg-indigo-50 text-indigo-800 p-4 rounded-md mb-6">
+              You are amending version {amendment.version} of{" "}
+              <Link
+                to={`/documents/${amendment.documentId}`}
+                className="font-medium underline"
+              >
+                this submission
+              </Link>
+              . Submitting saves version {amendment.version + 1}; earlier
+              versions stay in its history.
+            </div>
+          )}
+
           {error && (
             <div className="bg-red-50 text-red-500 p-4 rounded-md mb-6">
               {error}
@@ -231,6 +1002,14 @@ export default function CustomerPortal() {
                     className="px-4 py-2 text-sm font-medium text-gray-500 hover:text-gray-700 hover:border-gray-300 border-b-2 border-transparent data-[state=active]:border-blue-500 data-[state=active]:text-blue-600"
                   >
                     {section}
+                    {section !== "Review" && errorCounts[section] ? (
+                      <span
+                        className="ml-2 rounded-full bg-red-100 px-2 text-xs text-red-600"
+                        title={`${errorCounts[section]} item(s) incomplete`}
+                      >
+                        {errorCounts[section]}
+                      </span>
+                    ) : null}
                   </TabsTrigger>
                 ))}
               </TabsList>
@@ -247,8 +1026,12 @@ export default function CustomerPortal() {
                       name="tradeName"
                       value={formData.tradeName || ""}
                       onChange={handleInputChange}
-                      className="mt-2"
+                      className={cn(
+                        "mt-2",
+                        fieldError("tradeName") && "border-red-500"
+                      )}
                     />
+                    <FieldError name="tradeName" />
                   </div>
                   <div>
                     <Label className="text-base font-medium">
@@ -258,19 +1041,30 @@ export default function CustomerPortal() {
                       name="commodities"
                       value={formData.commodities || ""}
                       onChange={handleInputChange}
-                      className="mt-2"
+                      className={cn(
+                        "mt-2",
+                        fieldError("commodities") && "border-red-500"
+                      )}
                     />
+                    <FieldError name="commodities" />
                   </div>
                   <div>
-                    <Label className="text-base font-medium">
+                    <Label
+                      htmlFor="speciesNames"
+                      className="text-base font-medium"
+                    >
                       Common Name & Full Scientific Name of Species
                     </Label>
-                    <Input
-                      name="speciesNames"
-                      value={formData.speciesNames || ""}
-                      onChange={handleInputChange}
-                      className="mt-2"
-                    />
+                    <div className="mt-2">
+                      <SpeciesPicker
+                        id="speciesNames"
+                        value={formData.speciesNames}
+                        onChange={handleSpeciesChange}
+                        onBlur={() => touch("speciesNames")}
+                        invalid={Boolean(fieldError("speciesNames"))}
+                      />
+                    </div>
+                    <FieldError name="speciesNames" />
                   </div>
                   <div>
                     <Label className="text-base font-medium">
@@ -281,8 +1075,13 @@ export default function CustomerPortal() {
                       name="quantity"
                       value={formData.quantity || ""}
                       onChange={handleInputChange}
-                      className="mt-2"
+                      min="0"
+                      className={cn(
+                        "mt-2",
+                        fieldError("quantity") && "border-red-500"
+                      )}
                     />
+                    <FieldError name="quantity" />
                   </div>
                 </div>
               </TabsContent>
@@ -290,218 +1089,223 @@ export default function CustomerPortal() {
               <TabsContent value="Location Info" className="space-y-4">
                 <div className="grid gap-6">
                   <div>
-                    <Label className="text-base font-medium">
+                    <Label
+                      htmlFor="supplierCountry"
+                      className="text-base font-medium"
+                    >
                       Country & Region of Pulp Supplier
                     </Label>
-                    <Input
-                      name="supplierCountry"
-                      value={formData.supplierCountry || ""}
-                      onChange={handleInputChange}
-                      className="mt-2"
-                    />
+                    <div className="mt-2">
+                      <CountryRegionPicker
+                        id="supplierCountry"
+                        value={formData.supplierCountry}
+                        onChange={(value) =>
+                          handleValueChange("supplierCountry", value)
+                        }
+                        onBlur={() => touch("supplierCountry")}
+                        invalid={Boolean(fieldError("supplierCountry"))}
+                      />
+                    </div>
+                    <FieldError name="supplierCountry" />
                   </div>
                   <div>
-                    <Label className="text-base font-medium">
+                    <Label
+                      htmlFor="productionCountry"
+                      className="text-base font-medium"
+                    >
                       Country & Region of Pulp Production
                     </Label>
-                    <Input
-                      name="productionCountry"
-                      value={formData.productionCountry || ""}
-                      onChange={handleInputChange}
-                      className="mt-2"
-                    />
+                    <div className="mt-2">
+                      <CountryRegionPicker
+                        id="productionCountry"
+                        value={formData.productionCountry}
+                        onChange={(value) =>
+                          handleValueChange("productionCountry", value)
+                        }
+                        onBlur={() => touch("productionCountry")}
+                        invalid={Boolean(fieldError("productionCountry"))}
+                      />
+                    </div>
+                    <FieldError name="productionCountry" />
                   </div>
                   <div>
-                    <Label className="text-base font-medium">
+                    <Label
+                      htmlFor="woodOriginCountry"
+                      className="text-base font-medium"
+                    >
                       Country & Region of Wood Origin
                     </Label>
-                    <Input
-                      name="woodOriginCountry"
-                      value={formData.woodOriginCountry || ""}
-                      onChange={handleInputChange}
-                      className="mt-2"
-                    />
+                    <div className="mt-2">
+                      <CountryRegionPicker
+                        id="woodOriginCountry"
+                        value={formData.woodOriginCountry}
+                        onChange={(value) =>
+                          handleValueChange("woodOriginCountry", value)
+                        }
+                        onBlur={() => touch("woodOriginCountry")}
+                        invalid={Boolean(fieldError("woodOriginCountry"))}
+                      />
+                    </div>
+                    <FieldError name="woodOriginCountry" />
                   </div>
                   <div>
                     <Label className="text-base font-medium">
                       Geolocation Polygon of Harvest Areas
                     </Label>
-                    <Textarea
-                      name="geolocationPolygon"
-                      value={formData.geolocationPolygon || ""}
-                      onChange={handleInputChange}
-                      placeholder="Enter coordinates or description of harvest areas"
-                      className="mt-2"
-                    />
+                    <div className="grid gap-4 lg:grid-cols-2">
+                      <GeolocationInput
+                        value={geolocationText}
+                        onChange={handleGeolocationChange}
+                      />
+                      <PlotMap
+                        geometry={formData.geolocationPolygon}
+                        onChange={handleMapChange}
+                      />
+                    </div>
+                    {geolocationErrors.length === 0 && (
+                      <FieldError name="geolocationPolygon" />
+                    )}
                   </div>
+                  {formData.geolocationPolygon?.type === "Point" && (
+                    <div>
+                      <Label
+                        htmlFor="plotAreaHectares"
+                        className="text-base font-medium"
+                      >
+                        Plot Area (ha)
+                      </Label>
+                      <p className="text-sm text-gray-500">
+                        A single point is accepted for plots of up to 4 ha;
+                        larger plots need a polygon of their boundary.
+                      </p>
+                      <Input
+                        id="plotAreaHectares"
+                        type="number"
+                        name="plotAreaHectares"
+                        value={formData.plotAreaHectares || ""}
+                        onChange={handleInputChange}
+                        min="0"
+                        step="0.01"
+                        className={cn(
+                          "mt-2",
+                          fieldError("plotAreaHectares") && "border-red-500"
+                        )}
+                      />
+                      <FieldError name="plotAreaHectares" />
+                    </div>
+                  )}
                   <div>
-                    <Label className="text-base font-medium">
+                    <Label
+                      htmlFor="harvestDates"
+                      className="text-base font-medium"
+                    >
                       Date/Time Range of Harvesting
                     </Label>
-                    <Input
-                      name="harvestDates"
-                      value={formData.harvestDates || ""}
-                      onChange={handleInputChange}
-                      placeholder="Enter harvest date range"
-                      className="mt-2"
-                    />
+                    <div className="mt-2">
+                      <DateRangesPicker
+                        id="harvestDates"
+                        value={formData.harvestDates}
+                        onChange={(value) =>
+                          handleValueChange("harvestDates", value)
+                        }
+                        onBlur={() => touch("harvestDates")}
+                        invalid={Boolean(fieldError("harvestDates"))}
+                      />
+                    </div>
+                    <FieldError name="harvestDates" />
                   </div>
                 </div>
               </TabsContent>
 
               <TabsContent value="Contact Details" className="space-y-4">
                 <div className="grid gap-6">
-                  <div>
-                    <Label className="text-base font-medium">
-                      Pulp Supplier Details
-                    </Label>
-                    <Textarea
-                      name="supplierDetails"
-                      value={formData.supplierDetails || ""}
-                      onChange={handleInputChange}
-                      placeholder="Name, email, and postal address"
-                      className="mt-2"
-                      rows={4}
-                    />
-                  </div>
-                  <div>
-                    <Label className="text-base font-medium">
-                      Pulp Producer Details
-                    </Label>
-                    <Textarea
-                      name="producerDetails"
-                      value={formData.producerDetails || ""}
-                      onChange={handleInputChange}
-                      placeholder="Name, email, and postal address"
-                      className="mt-2"
-                      rows={4}
-                    />
-                  </div>
-                  <div>
-                    <Label className="text-base font-medium">
-                      Geolocation Owner Details
-                    </Label>
-                    <Textarea
-                      name="geolocationOwnerDetails"
-                      value={formData.geolocationOwnerDetails || ""}
-                      onChange={handleInputChange}
-                      placeholder="Name, email, and postal address"
-                      className="mt-2"
-                      rows={4}
-                    />
-                  </div>
+                  {fieldsInSection("Contact Details").map((field) => (
+                    <div key={field.name}>
+                      <Label className="text-base font-medium">
+                        {field.label}
+                      </Label>
+                      <div className="mt-2">
+                        <PartyForm
+                          id={field.name}
+                          value={formData[field.name] as Party | null}
+                          onChange={(party) =>
+                            handlePartyChange(field.name, party)
+                          }
+                          showAllErrors={submitAttempted}
+                          addressBook={addressBook}
+                          onForget={(key) =>
+                            forgetParty(userId, key)
+                              .then(setAddressBook)
+                              .catch(() => undefined)
+                          }
+                        />
+                      </div>
+                      {isPartyEmpty(formData[field.name] as Party | null) && (
+                        <FieldError name={field.name} />
+                      )}
+                    </div>
+                  ))}
                 </div>
               </TabsContent>
 
               <TabsContent value="Transaction Documents" className="space-y-4">
                 <div className="grid gap-6">
-                  {[
-                    {
-                      name: "geoToProducerInvoice",
-                      label: "Sale Invoice (Geolocation Owner to Producer)",
-                    },
-                    {
-                      name: "woodTransportDocs",
-                      label: "Wood Transportation Documents",
-                    },
-                    {
-                      name: "producerToSupplierInvoice",
-                      label: "Sale Invoice (Producer to Supplier)",
-                    },
-                    {
-                      name: "pulpTransportDocs",
-                      label: "Pulp Transportation Documents",
-                    },
-                    {
-                      name: "supplierToITCInvoice",
-                      label: "Sale Invoice (Supplier to ITC)",
-                    },
-                    {
-                      name: "shippingDocs",
-                      label: "Shipping Documents (BL, Customs)",
-                    },
-                    {
-                      name: "ddsSummary",
-                      label: "Due Diligence System (DDS) Summary",
-                    },
-                  ].map((doc) => (
-                    <FileUploadField
-                      key={doc.name}
-                      name={doc.name as keyof FileData}
-                      label={doc.label}
-                    />
-                  ))}
+                  {filesInSection("Transaction Documents").map(
+                    renderFileUploadField
+                  )}
                 </div>
               </TabsContent>
 
               <TabsContent value="Legal Documents" className="space-y-4">
                 <div className="grid gap-6">
-                  {[
-                    {
-                      name: "legalHarvestDocs",
-                      label: "Legal Rights to Harvest Documents",
-                    },
-                    {
-                      name: "fscCertificates",
-                      label: "FSC CW-FM Certificates",
-                    },
-                    {
-                      name: "fscCocCertificate",
-                      label: "FSC CoC Certificate of Supplier",
-                    },
-                    {
-                      name: "producerDeclaration",
-                      label: "Producer Declaration",
-                    },
-                    {
-                      name: "producerLicense",
-                      label: "Business License of Producer",
-                    },
-                    {
-                      name: "supplierLicense",
-                      label: "Business License of Supplier",
-                    },
-                  ].map((doc) => (
-                    <FileUploadField
-                      key={doc.name}
-                      name={doc.name as keyof FileData}
-                      label={doc.label}
-                    />
-                  ))}
+                  {filesInSection("Legal Documents").map(renderFileUploadField)}
                 </div>
               </TabsContent>
 
               <TabsContent value="Compliance" className="space-y-4">
                 <div className="grid gap-6">
-                  {[
-                    {
-                      name: "ghgCertifications",
-                      label: "GHG Emissions Certifications",
-                    },
-                    {
-                      name: "safetyCertifications",
-                      label: "Health & Safety Certifications",
-                    },
-                    {
-                      name: "humanRightsPolicies",
-                      label: "Human Rights Policies",
-                    },
-                    {
-                      name: "employeeRecords",
-                      label: "Employee Records & Benefits",
-                    },
-                  ].map((doc) => (
-                    <FileUploadField
-                      key={doc.name}
-                      name={doc.name as keyof FileData}
-                      label={doc.label}
-                    />
-                  ))}
+                  {filesInSection("Compliance").map(renderFileUploadField)}
                 </div>
               </TabsContent>
 
               <TabsContent value="Review" className="space-y-6">
                 <div className="space-y-8">
+                  {missingItems.length > 0 ? (
+                    <div className="bg-red-50 p-6 rounded-lg">
+                      <h3 className="text-lg font-medium text-red-700 mb-4">
+                        {missingItems.length} item
+                        {missingItems.length === 1 ? "" : "s"} to complete
+                        before submitting
+                      </h3>
+                      <ul className="grid gap-2">
+                        {missingItems.map((key) => (
+                          <li
+                            key={key}
+                            className="flex items-center justify-between gap-4 text-sm"
+                          >
+                            <span>
+                              <span className="font-medium">
+                                {labelFor(key)}:
+                              </span>{" "}
+                              {validationErrors[key]}
+                            </span>
+                            <Button
+                              variant="link"
+                              size="sm"
+                              onClick={() => setActiveTab(sectionFor(key))}
+                            >
+                              Go to {sectionFor(key)}
+                            </Button>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  ) : (
+                    <div className="bg-green-50 text-green-700 p-4 rounded-lg">
+                      All mandatory items are complete.
+                    </div>
+                  )}
+
                   <div className="bg-gray-50 p-6 rounded-lg">
                     <h3 className="text-lg font-medium mb-4">
                       Basic Information
@@ -517,7 +1321,7 @@ export default function CustomerPortal() {
                       </p>
                       <p>
                         <span className="font-medium">Species Names:</span>{" "}
-                        {formData.speciesNames || ""}
+                        {formatSpeciesList(formData.speciesNames)}
                       </p>
                       <p>
                         <span className="font-medium">Quantity:</span>{" "}
@@ -533,20 +1337,35 @@ export default function CustomerPortal() {
                     <div className="grid gap-3">
                       <p>
                         <span className="font-medium">Supplier Country:</span>{" "}
-                        {formData.supplierCountry || ""}
+                        {describeCountryRegion(formData.supplierCountry)}
                       </p>
                       <p>
                         <span className="font-medium">Production Country:</span>{" "}
-                        {formData.productionCountry || ""}
+                        {describeCountryRegion(formData.productionCountry)}
                       </p>
                       <p>
                         <span className="font-medium">Wood Origin:</span>{" "}
-                        {formData.woodOriginCountry || ""}
+                        {describeCountryRegion(formData.woodOriginCountry)}
                       </p>
                       <p>
                         <span className="font-medium">Geolocation:</span>{" "}
-                        {formData.geolocationPolygon || ""}
+                        {formData.geolocationPolygon
+                          ? describeGeometry(formData.geolocationPolygon)
+                          : ""}
                       </p>
+                      {formData.geolocationPolygon?.type === "Point" &&
+                        formData.plotAreaHectares && (
+                          <p>
+                            <span className="font-medium">Plot Area:</span>{" "}
+                            {formData.plotAreaHectares} ha
+                          </p>
+                        )}
+                      {formData.geolocationPolygon && (
+                        <PlotMap
+                          geometry={formData.geolocationPolygon}
+                          height={280}
+                        />
+                      )}
                       <p>
                         <span className="font-medium">Harvest Dates:</span>{" "}
                         {formData.harvestDates || ""}
@@ -559,18 +1378,16 @@ export default function CustomerPortal() {
                       Contact Information
                     </h3>
                     <div className="grid gap-3">
-                      <p>
-                        <span className="font-medium">Supplier Details:</span>{" "}
-                        {formData.supplierDetails || ""}
-                      </p>
-                      <p>
-                        <span className="font-medium">Producer Details:</span>{" "}
-                        {formData.producerDetails || ""}
-                      </p>
-                      <p>
-                        <span className="font-medium">Geolocation Owner:</span>{" "}
-                        {formData.geolocationOwnerDetails || ""}
-                      </p>
+                      {fieldsInSection("Contact Details").map((field) => (
+                        <div key={field.name}>
+                          <span className="font-medium">{field.label}:</span>
+                          {formatParty(formData[field.name]).map((line) => (
+                            <p key={line} className="text-sm">
+                              {line}
+                            </p>
+                          ))}
+                        </div>
+                      ))}
                     </div>
                   </div>
 
@@ -579,11 +1396,31 @@ export default function CustomerPortal() {
                       Uploaded Documents
                     </h3>
                     <div className="grid grid-cols-2 gap-4">
-                      {Object.entries(fileData)
-                        .filter(([_, value]) => value !== null)
+                      {(
+                        Object.entries(libraryAttachments) as Array<
+                          [string, LibraryDocument[]]
+                        >
+                      ).flatMap(([key, documents]) =>
+                        documents.map((document) => (
+                          <p
+                            key={`library:${document.fileId}`}
+                            className="flex items-center text-indigo-600"
+                          >
+                            <Library className="w-5 h-5 mr-2" />
+                            <span className="flex-1">
+                              {labelFor(key as SubmissionKey)}:{" "}
+                              {document.fileName} (previously uploaded)
+                            </span>
+                          </p>
+                        ))
+                      )}
+                      {(Object.entries(fileData) as Array<[string, File[]]>)
+                        .flatMap(([key, files]) =>
+                          files.map((file) => [key, file] as const)
+                        )
                         .map(([key, value]) => (
                           <p
-                            key={key}
+                            key={uploadKey(key, value)}
                             className="flex items-center text-green-600"
                           >
                             <svg
@@ -597,11 +1434,136 @@ export default function CustomerPortal() {
                                 clipRule="evenodd"
                               />
                             </svg>
-                            {key}: {value?.name}
+                            <span className="flex-1">
+                              {labelFor(key as SubmissionKey)}: {value.name}
+                            </span>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="ml-2"
+                              onClick={() => setViewerFile(value)}
+                            >
+                              View
+                            </Button>
                           </p>
                         ))}
                     </div>
                   </div>
+
+                  {expiredCertificates.length > 0 && (
+                    <div className="bg-amber-50 p-6 rounded-lg">
+                      <h3 className="text-lg font-medium text-amber-800 mb-4">
+                        Expired certificates
+                      </h3>
+                      <ul className="grid gap-2 text-sm text-amber-800">
+                        {expiredCertificates.map(({ key, label, details }) => (
+                          <li key={key}>
+                            {label}: certificate {details.certificateNumber}{" "}
+                            expired on {details.expiryDate}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+
+                  {fscRegistryIssues.length > 0 && (
+                    <div className="bg-amber-50 p-6 rounded-lg">
+                      <h3 className="text-lg font-medium text-amber-800 mb-4">
+                        FSC registry check
+                      </h3>
+                      <ul className="grid gap-2 text-sm text-amber-800">
+                        {fscRegistryIssues.map(
+                          ({ key, label, code, problem }) => (
+                            <li key={key}>
+                              {label}: {code} is {problem}
+                            </li>
+                          )
+                        )}
+                      </ul>
+                    </div>
+                  )}
+
+                  {amendment && (
+                    <div className="bg-indigo-50 p-6 rounded-lg">
+                      <Label
+                        htmlFor="amendmentComment"
+                        className="text-lg font-medium"
+                      >
+                        Reason for the amendment
+                      </Label>
+                      <Textarea
+                        id="amendmentComment"
+                        value={amendment.comment}
+                        onChange={(e) => {
+                          setAmendment({
+                            ...amendment,
+                            comment: e.target.value,
+                          });
+                          setIsDirty(true);
+                        }}
+                        placeholder="e.g. Corrected the quantity and replaced the supplier invoice"
+                        className="mt-2"
+                      />
+                    </div>
+                  )}
+
+                  <div className="bg-gray-50 p-6 rounded-lg">
+                    <h3 className="text-lg font-medium mb-4">
+                      Risk Assessment
+                    </h3>
+                    <RiskAssessmentPanel assessment={riskAssessment} />
+                  </div>
+
+                  {uploadEntries.length > 0 && (
+                    <div className="bg-gray-50 p-6 rounded-lg">
+                      <h3 className="text-lg font-medium mb-4">
+                        Upload Progress
+                      </h3>
+                      <ul className="grid gap-3">
+                        {uploadEntries.map(({ key, label, state }) => (
+                          <li key={key} className="grid gap-1">
+                            <div className="flex items-center justify-between gap-4 text-sm">
+                              <span>{label}</span>
+                              <span className="flex items-center gap-2">
+                                <span
+                                  className={cn(
+                                    state.status === "done" && "text-green-600",
+                                    (state.status === "error" ||
+                                      state.status === "cancelled") &&
+                                      "text-red-500"
+                                  )}
+                                >
+                                  {uploadStatusText(state)}
+                                </span>
+                                {(state.status === "uploading" ||
+                                  state.status === "retrying") && (
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => handleCancelUpload(key)}
+                                  >
+                                    Cancel
+                                  </Button>
+                                )}
+                              </span>
+                            </div>
+                            <div className="h-2 w-full rounded-full bg-gray-200">
+                              <div
+                                className={cn(
+                                  "h-2 rounded-full transition-all",
+                                  state.status === "error" ||
+                                    state.status === "cancelled"
+                                    ? "bg-red-400"
+                                    : "bg-green-500"
+                                )}
+                                style={{ width: `${state.progress}%` }}
+                              />
+                            </div>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
                 </div>
               </TabsContent>
             </div>
@@ -623,10 +1585,16 @@ export default function CustomerPortal() {
             {activeTab === sections[sections.length - 1] ? (
               <Button
                 onClick={handleSubmit}
-                disabled={isSubmitting}
+                disabled={isSubmitting || missingItems.length > 0}
                 className="px-6 bg-green-600 hover:bg-green-700"
               >
-                {isSubmitting ? "Submitting..." : "Submit"}
+                {isSubmitting
+                  ? "Submitting..."
+                  : hasFailedUploads
+                  ? "Retry Submission"
+                  : amendment
+                  ? "Save Amendment"
+                  : "Submit"}
               </Button>
             ) : (
               <Button
@@ -644,6 +1612,11 @@ export default function CustomerPortal() {
           </div>
         </CardContent>
       </Card>
+      <FileViewer
+        file={viewerFile}
+        fileName={viewerFile?.name || ""}
+        onClose={() => setViewerFile(null)}
+      />
     </div>
   );
 }
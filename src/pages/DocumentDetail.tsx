@@ -0,0 +1,590 @@
+import React, { useEffect, useState } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import {
+  createDownloadLink,
+  downloadFile,
+  getDocument,
+  getDocumentStatus,
+  getDocumentVersions,
+  transitionDocumentStatus,
+} from "../services/api";
+import { getCurrentUser, isReviewer } from "../services/authService";
+import { saveDraft } from "../services/draftService";
+import { listLibrary } from "../services/documentLibraryService";
+import { getFscRegistry } from "../services/fscRegistryService";
+import { Card, CardContent } from "../components/ui/card";
+import { Button } from "../components/ui/button";
+import { Label } from "../components/ui/label";
+import { Textarea } from "../components/ui/textarea";
+import StatusBadge from "../components/documents/StatusBadge";
+import StatusTimeline from "../components/documents/StatusTimeline";
+import VersionHistory from "../components/documents/VersionHistory";
+import FileViewer from "../components/documents/FileViewer";
+import DdsExport from "../components/documents/DdsExport";
+import TraceabilityGraph from "../components/documents/TraceabilityGraph";
+import RiskAssessmentPanel from "../components/documents/RiskAssessmentPanel";
+import PlotMap from "../components/geo/PlotMap";
+import RiskTierBadge from "../components/geo/RiskTierBadge";
+import FscRegistryStatus from "../components/certificates/FscRegistryStatus";
+import { describeGeometry, toGeometry } from "../lib/geo";
+import { downloadBlob } from "../lib/download";
+import {
+  Section,
+  fieldsInSection,
+  fileIdsOf,
+  filesInSection,
+  formSchema,
+} from "../lib/submissionSchema";
+import { formatParty } from "../lib/parties";
+import { describeCountryRegion, parseCountryRegion } from "../lib/countries";
+import { riskTierFor } from "../lib/countryRisk";
+import { findSpecies, formatSpecies, parseSpecies } from "../lib/species";
+import { assessRisk, riskInputFromDocument } from "../lib/riskAssessment";
+import { isExpired, isFscCategory } from "../lib/certificates";
+import { FscRegistryIndex, indexFscRegistry } from "../lib/fsc";
+import { draftFromDocument } from "../lib/submissionCopy";
+import {
+  amendableStatuses,
+  availableTransitions,
+  getStatus,
+  statusDescriptions,
+} from "../lib/status";
+import {
+  Document,
+  DocumentVersion,
+  FormData,
+  StatusHistoryEntry,
+  SubmissionStatus,
+} from "../types/submission";
+
+const fieldSections: Section[] = [
+  "Basic Details",
+  "Location Info",
+  "Contact Details",
+];
+const fileSections: Section[] = [
+  "Transaction Documents",
+  "Legal Documents",
+  "Compliance",
+];
+
+// Decisions that leave the supplier with something to act on need a reason
+const commentRequired: SubmissionStatus[] = ["changes_requested", "rejected"];
+
+export default function DocumentDetail() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const [document, setDocument] = useState<Document | null>(null);
+  const [status, setStatus] = useState<SubmissionStatus>("submitted");
+  const [history, setHistory] = useState<StatusHistoryEntry[]>([]);
+  const [versions, setVersions] = useState<DocumentVersion[]>([]);
+  const [amendError, setAmendError] = useState("");
+  const [comment, setComment] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [error, setError] = useState("");
+  const [statusError, setStatusError] = useState("");
+  const [fileError, setFileError] = useState("");
+  const [viewer, setViewer] = useState<{ file: Blob; name: string } | null>(
+    null
+  );
+  const [openingFile, setOpeningFile] = useState<string | null>(null);
+  const [dossierProgress, setDossierProgress] = useState<string | null>(null);
+  const [dossierError, setDossierError] = useState("");
+  const [fscRegistry, setFscRegistry] = useState<FscRegistryIndex | null>(null);
+
+  useEffect(() => {
+    if (!id) return;
+
+    const loadDocument = async () => {
+      try {
+        const result = await getDocument(id);
+        if (!result.success) {
+          setError("Failed to load document");
+          return;
+        }
+        const doc: Document = result.data;
+        setDocument(doc);
+        setStatus(getStatus(doc.status));
+        setHistory(doc.statusHistory || []);
+
+        // The status endpoint has the authoritative history
+        try {
+          const statusResult = await getDocumentStatus(id);
+          if (statusResult.success) {
+            setStatus(getStatus(statusResult.data.status));
+            setHistory(statusResult.data.statusHistory || []);
+          }
+        } catch (err) {
+          console.error("Falling back to embedded status history:", err);
+        }
+
+        try {
+          const versionsResult = await getDocumentVersions(id);
+          if (versionsResult.success) setVersions(versionsResult.data);
+        } catch (err) {
+          console.error("Version history unavailable:", err);
+        }
+      } catch (err) {
+        setError("Error loading document");
+        console.error(err);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadDocument();
+  }, [id]);
+
+  useEffect(() => {
+    getFscRegistry()
+      .then((snapshot) =>
+        setFscRegistry(snapshot ? indexFscRegistry(snapshot.entries) : null)
+      )
+      .catch(() => setFscRegistry(null));
+  }, []);
+
+  const handleTransition = async (next: SubmissionStatus) => {
+    if (!id) return;
+    if (commentRequired.includes(next) && !comment.trim()) {
+      setStatusError("Please explain the decision in the comment field.");
+      return;
+    }
+
+    try {
+      setIsUpdating(true);
+      setStatusError("");
+      const result = await transitionDocumentStatus(
+        id,
+        next,
+        comment.trim() || undefined
+      );
+      if (!result.success) {
+        throw new Error(result.error || "Status update failed");
+      }
+      setStatus(result.data.status);
+      setHistory(result.data.statusHistory || []);
+      setComment("");
+    } catch (err: any) {
+      console.error("Error updating status:", err);
+      setStatusError(
+        err.response?.data?.error ||
+          err.message ||
+          "Failed to update status. Please try again."
+      );
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const handleDownload = async (fileId: string, fileName: string) => {
+    try {
+      await createDownloadLink(fileId, fileName);
+    } catch (err) {
+      console.error("Error downloading file:", err);
+      setFileError("Failed to download file. Please try again.");
+    }
+  };
+
+  const handleGenerateDossier = async () => {
+    if (!document) return;
+    try {
+      setDossierError("");
+      setDossierProgress("Preparing...");
+      // pdf-lib is only needed here, so it is loaded on demand
+      const { generateDossier } = await import("../lib/dossier");
+      const bytes = await generateDossier(
+        document,
+        downloadFile,
+        ({ done, total }) =>
+          setDossierProgress(`Adding files (${done} of ${total})...`)
+      );
+      downloadBlob(
+        new Blob([bytes], { type: "application/pdf" }),
+        `dossier_${document._id}.pdf`
+      );
+    } catch (err) {
+      console.error("Error generating dossier:", err);
+      setDossierError("Failed to generate the dossier. Please try again.");
+    } finally {
+      setDossierProgress(null);
+    }
+  };
+
+  // Opens the submission in the form as a draft that saves a new version
+  const handleAmend = async () => {
+    const userId = getCurrentUser()?.user.id;
+    if (!document || !userId) return;
+    setAmendError("");
+    try {
+      const library = await listLibrary(userId);
+      const draft = draftFromDocument(document, userId, library, {
+        amend: true,
+      });
+      await saveDraft(draft);
+      navigate(`/?draft=${draft.id}`);
+    } catch (err) {
+      console.error("Error starting amendment:", err);
+      setAmendError("Failed to open the submission for amendment.");
+    }
+  };
+
+  const handleView = async (fileId: string, fileName: string) => {
+    try {
+      setOpeningFile(fileId);
+      setFileError("");
+      const blob = await downloadFile(fileId);
+      setViewer({ file: blob, name: fileName });
+    } catch (err) {
+      console.error("Error opening file:", err);
+      setFileError("Failed to open file. Please try again.");
+    } finally {
+      setOpeningFile(null);
+    }
+  };
+
+  const renderValue = (key: string, value: unknown) => {
+    if (key === "geolocationPolygon") {
+      const geometry = toGeometry(value);
+      if (!geometry) {
+        // Legacy free-text geolocations are shown as entered
+        return value ? String(value) : null;
+      }
+      return (
+        <div className="space-y-2">
+          <span>{describeGeometry(geometry)}</span>
+          <PlotMap geometry={geometry} height={280} />
+        </div>
+      );
+    }
+    if (value === null || value === undefined || value === "") return null;
+    if (key === "quantity") return `${value} MT`;
+    if (key === "plotAreaHectares") return `${value} ha`;
+    if (formSchema[key as keyof FormData]?.format === "party") {
+      return (
+        <div>
+          {formatParty(value).map((line) => (
+            <p key={line}>{line}</p>
+          ))}
+        </div>
+      );
+    }
+    if (formSchema[key as keyof FormData]?.format === "species") {
+      return (
+        <ul>
+          {parseSpecies(value).map((species) => {
+            const cites = findSpecies(species.scientificName)?.cites;
+            return (
+              <li key={species.scientificName}>
+                {formatSpecies(species)}
+                {cites && (
+                  <span className="ml-2 text-xs font-medium text-red-700">
+                    CITES Appendix {cites}
+                  </span>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      );
+    }
+    if (formSchema[key as keyof FormData]?.format === "countryRegion") {
+      const parsed = parseCountryRegion(String(value));
+      return (
+        <span className="inline-flex flex-wrap items-center gap-2">
+          {describeCountryRegion(String(value))}
+          {parsed && <RiskTierBadge tier={riskTierFor(parsed.country)} />}
+        </span>
+      );
+    }
+    return <span className="whitespace-pre-line">{String(value)}</span>;
+  };
+
+  if (loading) return <div>Loading...</div>;
+  if (error) return <div className="text-red-500">{error}</div>;
+  if (!document) return null;
+
+  const transitions = availableTransitions(status, isReviewer());
+
+  return (
+    <div className="max-w-7xl mx-auto p-6 space-y-6">
+      <Link
+        to="/documents"
+        className="text-sm text-indigo-600 hover:text-indigo-500"
+      >
+        ← Back to documents
+      </Link>
+
+      <Card className="shadow-md">
+        <CardContent className="p-6">
+          <div className="flex flex-wrap items-start justify-between gap-4">
+            <div>
+              <h1 className="text-2xl font-bold">
+                {document.tradeName || "Untitled"}
+              </h1>
+              <p className="text-gray-600">
+                {document.commodities || "No commodities specified"}
+              </p>
+              <p className="text-sm text-gray-500">
+                Submitted on:{" "}
+                {new Date(document.createdAt).toLocaleDateString()}
+                {(document.version || 1) > 1 &&
+                  ` · version ${document.version}`}
+              </p>
+            </div>
+            <div className="text-right">
+              <StatusBadge status={status} />
+              <p className="mt-2 text-sm text-gray-600">
+                {statusDescriptions[status]}
+              </p>
+              <Button
+                variant="outline"
+                size="sm"
+                className="mt-3"
+                onClick={handleGenerateDossier}
+                disabled={dossierProgress !== null}
+              >
+                {dossierProgress || "Generate dossier"}
+              </Button>
+              {dossierError && (
+                <p className="mt-2 text-sm text-red-500">{dossierError}</p>
+              )}
+              {amendableStatuses.includes(status) && !isReviewer() && (
+                <Button size="sm" className="mt-3 ml-2" onClick={handleAmend}>
+                  Amend
+                </Button>
+              )}
+              {amendError && (
+                <p className="mt-2 text-sm text-red-500">{amendError}</p>
+              )}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="shadow-md">
+        <CardContent className="p-6">
+          <h2 className="text-lg font-medium mb-4">Chain of Custody</h2>
+          <TraceabilityGraph document={document} />
+        </CardContent>
+      </Card>
+
+      <Card className="shadow-md">
+        <CardContent className="p-6">
+          <h2 className="text-lg font-medium mb-4">Risk Assessment</h2>
+          <RiskAssessmentPanel
+            assessment={assessRisk(riskInputFromDocument(document))}
+          />
+        </CardContent>
+      </Card>
+
+      {fieldSections.map((section) => (
+        <Card key={section} className="shadow-md">
+          <CardContent className="p-6">
+            <h2 className="text-lg font-medium mb-4">{section}</h2>
+            <dl className="grid gap-4 md:grid-cols-[16rem_1fr]">
+              {fieldsInSection(section).map((field) => (
+                <React.Fragment key={field.name}>
+                  <dt className="font-medium text-gray-700">{field.label}</dt>
+                  <dd className="text-gray-900">
+                    {renderValue(field.name, document[field.name]) || (
+                      <span className="text-gray-400">Not provided</span>
+                    )}
+                  </dd>
+                </React.Fragment>
+              ))}
+            </dl>
+          </CardContent>
+        </Card>
+      ))}
+
+      {fileError && (
+        <div className="bg-red-50 text-red-500 p-4 rounded-md">{fileError}</div>
+      )}
+
+      {fileSections.map((section) => (
+        <Card key={section} className="shadow-md">
+          <CardContent className="p-6">
+            <h2 className="text-lg font-medium mb-4">{section}</h2>
+            <ul className="grid gap-3">
+              {filesInSection(section).map((file) => {
+                const fileIds = fileIdsOf(document.files?.[file.name]);
+                return (
+                  <li key={file.name} className="rounded bg-gray-50 p-3">
+                    <div className="flex items-center justify-between gap-4">
+                      <span className="text-sm font-medium">
+                        {file.label}
+                        {fileIds.length > 1 && (
+                          <span className="ml-2 text-gray-500">
+                            {fileIds.length} files
+                          </span>
+                        )}
+                      </span>
+                      {fileIds.length === 0 && (
+                        <span className="text-sm text-gray-400">
+                          Not uploaded
+                        </span>
+                      )}
+                    </div>
+                    {fileIds.map((fileId, index) => {
+                      const name =
+                        fileIds.length > 1
+                          ? `${file.name}_${document._id}_${index + 1}`
+                          : `${file.name}_${document._id}`;
+                      const label =
+                        fileIds.length > 1
+                          ? `${file.label} (${index + 1} of ${fileIds.length})`
+                          : file.label;
+                      const certificate =
+                        document.certificates?.[file.name]?.[index];
+                      return (
+                        <div key={fileId} className="mt-3">
+                          <div className="flex items-center justify-between gap-4">
+                            <span className="text-sm text-gray-600">
+                              {fileIds.length > 1 ? `File ${index + 1}` : ""}
+                            </span>
+                            <div className="flex gap-2">
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => handleView(fileId, label)}
+                                disabled={openingFile === fileId}
+                              >
+                                {openingFile === fileId ? "Opening..." : "View"}
+                              </Button>
+                              <Button
+                                size="sm"
+                                onClick={() => handleDownload(fileId, name)}
+                              >
+                                Download
+                              </Button>
+                            </div>
+                          </div>
+                          {certificate && (
+                            <p className="text-sm text-gray-600 mt-1">
+                              Certificate {certificate.certificateNumber}
+                              {certificate.issuer &&
+                                `, issued by ${certificate.issuer}`}
+                              {certificate.issueDate &&
+                                ` on ${certificate.issueDate}`}
+                              , valid until {certificate.expiryDate}
+                              {isExpired(certificate) && (
+                                <span className="ml-2 font-medium text-red-600">
+                                  Expired
+                                </span>
+                              )}
+                            </p>
+                          )}
+                          {certificate && isFscCategory(file.name) && (
+                            <FscRegistryStatus
+                              code={certificate.certificateNumber}
+                              registry={fscRegistry}
+                              className="mt-1"
+                            />
+                          )}
+                        </div>
+                      );
+                    })}
+                  </li>
+                );
+              })}
+            </ul>
+          </CardContent>
+        </Card>
+      ))}
+
+      <Card className="shadow-md">
+        <CardContent className="p-6">
+          <h2 className="text-lg font-medium mb-4">
+            EUDR Due Diligence Statement
+          </h2>
+          <DdsExport document={document} />
+        </CardContent>
+      </Card>
+
+      <Card className="shadow-md">
+        <CardContent className="p-6">
+          <h2 className="text-lg font-medium mb-4">Metadata</h2>
+          <dl className="grid gap-2 text-sm md:grid-cols-[16rem_1fr]">
+            <dt className="font-medium text-gray-700">Document ID</dt>
+            <dd className="font-mono">{document._id}</dd>
+            <dt className="font-medium text-gray-700">Created</dt>
+            <dd>{new Date(document.createdAt).toLocaleString()}</dd>
+            <dt className="font-medium text-gray-700">Last updated</dt>
+            <dd>
+              {document.updatedAt
+                ? new Date(document.updatedAt).toLocaleString()
+                : "—"}
+            </dd>
+            <dt className="font-medium text-gray-700">Files uploaded</dt>
+            <dd>
+              {Object.values(document.files || {}).reduce(
+                (count, value) => count + fileIdsOf(value).length,
+                0
+              )}
+            </dd>
+          </dl>
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <Card className="shadow-md">
+          <CardContent className="p-6">
+            <h2 className="text-lg font-medium mb-4">Status History</h2>
+            <StatusTimeline history={history} />
+          </CardContent>
+        </Card>
+
+        {transitions.length > 0 && (
+          <Card className="shadow-md">
+            <CardContent className="p-6 space-y-4">
+              <h2 className="text-lg font-medium">Update Status</h2>
+              {statusError && (
+                <div className="bg-red-50 text-red-500 p-3 rounded-md text-sm">
+                  {statusError}
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="statusComment">Comment</Label>
+                <Textarea
+                  id="statusComment"
+                  value={comment}
+                  onChange={(e) => setComment(e.target.value)}
+                  placeholder="What does the supplier need to know?"
+                  rows={4}
+                  disabled={isUpdating}
+                />
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {transitions.map((transition) => (
+                  <Button
+                    key={transition.to}
+                    onClick={() => handleTransition(transition.to)}
+                    disabled={isUpdating}
+                    variant={
+                      transition.to === "rejected" ? "destructive" : "default"
+                    }
+                  >
+                    {transition.label}
+                  </Button>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      <Card className="shadow-md mt-6">
+        <CardContent className="p-6">
+          <h2 className="text-lg font-medium mb-4">Version History</h2>
+          <VersionHistory versions={versions} />
+        </CardContent>
+      </Card>
+      <FileViewer
+        file={viewer?.file || null}
+        fileName={viewer?.name || ""}
+        onClose={() => setViewer(null)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,401 @@
+import React, { ChangeEvent, useEffect, useState } from "react";
+import { Card, CardContent } from "../components/ui/card";
+import { Button } from "../components/ui/button";
+import { Input } from "../components/ui/input";
+import { Label } from "../components/ui/label";
+import { Select } from "../components/ui/select";
+import CertificateFields from "../components/certificates/CertificateFields";
+import { createDownloadLink, uploadFileWithRetry } from "../services/api";
+import { getCurrentUser } from "../services/authService";
+import {
+  forgetDocument,
+  listLibrary,
+  rememberDocuments,
+  updateLibraryDocument,
+} from "../services/documentLibraryService";
+import {
+  describeValidity,
+  isDocumentExpired,
+  libraryDocument,
+  reusableCategories,
+} from "../lib/documentLibrary";
+import {
+  emptyCertificate,
+  isCertificateCategory,
+  validateCertificate,
+} from "../lib/certificates";
+import { formatFileSize, validateFile } from "../lib/fileValidation";
+import { labelFor, maxFileSizeFor } from "../lib/submissionSchema";
+import {
+  CertificateDetails,
+  FileData,
+  LibraryDocument,
+} from "../types/submission";
+
+export default function DocumentLibrary() {
+  const userId = getCurrentUser()?.user.id;
+  const [documents, setDocuments] = useState<LibraryDocument[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [category, setCategory] = useState<keyof FileData>(
+    reusableCategories[0]
+  );
+  const [file, setFile] = useState<File | null>(null);
+  const [certificate, setCertificate] = useState<CertificateDetails>(
+    emptyCertificate()
+  );
+  const [validFrom, setValidFrom] = useState("");
+  const [validUntil, setValidUntil] = useState("");
+  const [attempted, setAttempted] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState("");
+  const [editing, setEditing] = useState<string | null>(null);
+
+  const isCertificate = isCertificateCategory(category);
+
+  useEffect(() => {
+    listLibrary(userId)
+      .then(setDocuments)
+      .catch(() => setError("Error loading the library"))
+      .finally(() => setLoading(false));
+  }, [userId]);
+
+  const resetUpload = () => {
+    setFile(null);
+    setCertificate(emptyCertificate());
+    setValidFrom("");
+    setValidUntil("");
+    setAttempted(false);
+  };
+
+  const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
+    setFile(e.target.files?.[0] || null);
+    setError("");
+  };
+
+  const handleUpload = async () => {
+    setAttempted(true);
+    setError("");
+    if (!file) {
+      setError("Choose a file to upload");
+      return;
+    }
+    if (
+      isCertificate &&
+      Object.keys(validateCertificate(certificate, category)).length > 0
+    ) {
+      return;
+    }
+    if (!isCertificate && validFrom && validUntil && validUntil < validFrom) {
+      setError("The document expires before it becomes valid");
+      return;
+    }
+
+    setUploading(true);
+    try {
+      const problem = await validateFile(file, maxFileSizeFor(category));
+      if (problem) {
+        setError(problem);
+        return;
+      }
+      const { fileId } = await uploadFileWithRetry(file);
+      const document = isCertificate
+        ? libraryDocument(category, file, fileId, certificate)
+        : { ...libraryDocument(category, file, fileId), validFrom, validUntil };
+      setDocuments(await rememberDocuments(userId, [document]));
+      resetUpload();
+    } catch (err: any) {
+      console.error("Error uploading library document:", err);
+      setError(err.response?.data?.error || "Upload failed. Please try again.");
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  // Edits stay in the page until "Done" saves them
+  const editDocument = (
+    fileId: string,
+    changes: Partial<Omit<LibraryDocument, "fileId">>
+  ) =>
+    setDocuments((current) =>
+      current.map((document) =>
+        document.fileId === fileId ? { ...document, ...changes } : document
+      )
+    );
+
+  const handleCertificateEdit = (
+    document: LibraryDocument,
+    details: CertificateDetails
+  ) =>
+    editDocument(document.fileId, {
+      certificate: details,
+      validFrom: details.issueDate,
+      validUntil: details.expiryDate,
+    });
+
+  // Saves the document being edited, then edits the next one if any
+  const handleEditToggle = async (next: string | null) => {
+    const edited = documents.find((document) => document.fileId === editing);
+    if (edited) {
+      try {
+        setError("");
+        setDocuments(
+          await updateLibraryDocument(userId, edited.fileId, {
+            certificate: edited.certificate,
+            validFrom: edited.validFrom,
+            validUntil: edited.validUntil,
+          })
+        );
+      } catch (err) {
+        setError(`Failed to save ${edited.fileName}. Please try again.`);
+        return;
+      }
+    }
+    setEditing(next);
+  };
+
+  const handleRemove = async (document: LibraryDocument) => {
+    if (
+      !window.confirm(
+        `Remove ${document.fileName} from the library? Submissions that already use it keep their copy.`
+      )
+    ) {
+      return;
+    }
+    try {
+      setError("");
+      setDocuments(await forgetDocument(userId, document.fileId));
+      if (editing === document.fileId) setEditing(null);
+    } catch (err) {
+      setError(`Failed to remove ${document.fileName}. Please try again.`);
+    }
+  };
+
+  const handleDownload = async (document: LibraryDocument) => {
+    try {
+      await createDownloadLink(document.fileId, document.fileName);
+    } catch (err) {
+      setError("Failed to download the file. Please try again.");
+    }
+  };
+
+  const dateField = (
+    id: string,
+    label: string,
+    value: string,
+    onChange: (value: string) => void
+  ) => (
+    <div>
+      <Label htmlFor={id} className="text-xs">
+        {label}
+      </Label>
+      <Input
+        id={id}
+        type="date"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="mt-1 h-8"
+      />
+    </div>
+  );
+
+  return (
+    <div className="max-w-7xl mx-auto p-6">
+      <h1 className="text-2xl font-bold mb-2">Document Library</h1>
+      <p className="text-gray-600 mb-6">
+        Licences, certificates and policies uploaded once and attached to later
+        submissions without uploading them again. Files from submitted forms are
+        added automatically.
+      </p>
+
+      <Card className="shadow-md mb-6">
+        <CardContent className="p-6 space-y-4">
+          <h2 className="text-lg font-semibold">Add a document</h2>
+          <div className="grid gap-4 md:grid-cols-2">
+            <div>
+              <Label htmlFor="library-category" className="text-sm">
+                Document type
+              </Label>
+              <Select
+                id="library-category"
+                value={category}
+                onChange={(e) => {
+                  setCategory(e.target.value as keyof FileData);
+                  setAttempted(false);
+                }}
+                className="mt-1"
+              >
+                {reusableCategories.map((key) => (
+                  <option key={key} value={key}>
+                    {labelFor(key)}
+                  </option>
+                ))}
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="library-file" className="text-sm">
+                File
+              </Label>
+              <Input
+                id="library-file"
+                key={file ? "selected" : "empty"}
+                type="file"
+                onChange={handleFileChange}
+                accept=".pdf,.doc,.docx,.jpg,.jpeg,.png"
+                className="mt-1 cursor-pointer"
+              />
+            </div>
+          </div>
+          {isCertificate ? (
+            <CertificateFields
+              id="library-new"
+              category={category}
+              value={certificate}
+              onChange={setCertificate}
+              showAllErrors={attempted}
+              fscRegistry={null}
+            />
+          ) : (
+            <div className="grid gap-2 md:grid-cols-4">
+              {dateField(
+                "library-valid-from",
+                "Valid from",
+                validFrom,
+                setValidFrom
+              )}
+              {dateField(
+                "library-valid-until",
+                "Valid until (leave empty if it doesn't expire)",
+                validUntil,
+                setValidUntil
+              )}
+            </div>
+          )}
+          {error && <p className="text-sm text-red-500">{error}</p>}
+          <Button onClick={handleUpload} disabled={uploading}>
+            {uploading ? "Uploading..." : "Upload to library"}
+          </Button>
+        </CardContent>
+      </Card>
+
+      {loading ? (
+        <div>Loading...</div>
+      ) : documents.length === 0 ? (
+        <p className="text-gray-600">The library is empty.</p>
+      ) : (
+        <div className="grid gap-6">
+          {reusableCategories
+            .filter((key) =>
+              documents.some((document) => document.category === key)
+            )
+            .map((key) => (
+              <div key={key}>
+                <h2 className="text-lg font-semibold mb-2">{labelFor(key)}</h2>
+                <div className="grid gap-2">
+                  {documents
+                    .filter((document) => document.category === key)
+                    .map((document) => (
+                      <Card key={document.fileId} className="shadow-sm">
+                        <CardContent className="p-4 space-y-3">
+                          <div className="flex flex-wrap items-center justify-between gap-4">
+                            <div>
+                              <p className="font-medium">
+                                {document.fileName}
+                                {document.certificate &&
+                                  ` (${document.certificate.certificateNumber})`}
+                              </p>
+                              <p className="text-sm text-gray-500">
+                                {document.size !== undefined &&
+                                  `${formatFileSize(document.size)} · `}
+                                last used{" "}
+                                {new Date(
+                                  document.lastUsedAt
+                                ).toLocaleDateString()}
+                              </p>
+                              <p
+                                className={
+                                  isDocumentExpired(document)
+                                    ? "text-sm font-medium text-red-600"
+                                    : "text-sm text-gray-600"
+                                }
+                              >
+                                {describeValidity(document)}
+                                {isDocumentExpired(document) && " (expired)"}
+                              </p>
+                            </div>
+                            <div className="flex gap-2">
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() =>
+                                  handleEditToggle(
+                                    editing === document.fileId
+                                      ? null
+                                      : document.fileId
+                                  )
+                                }
+                              >
+                                {editing === document.fileId
+                                  ? "Done"
+                                  : "Edit validity"}
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => handleDownload(document)}
+                              >
+                                Download
+                              </Button>
+                              <Button
+                                variant="destructive"
+                                size="sm"
+                                onClick={() => handleRemove(document)}
+                              >
+                                Remove
+                              </Button>
+                            </div>
+                          </div>
+                          {editing === document.fileId &&
+                            (isCertificateCategory(document.category) ? (
+                              <CertificateFields
+                                id={`library-${document.fileId}`}
+                                category={document.category}
+                                value={document.certificate}
+                                onChange={(details) =>
+                                  handleCertificateEdit(document, details)
+                                }
+                                showAllErrors
+                                fscRegistry={null}
+                              />
+                            ) : (
+                              <div className="grid gap-2 md:grid-cols-4">
+                                {dateField(
+                                  `library-${document.fileId}-from`,
+                                  "Valid from",
+                                  document.validFrom,
+                                  (date) =>
+                                    editDocument(document.fileId, {
+                                      validFrom: date,
+                                    })
+                                )}
+                                {dateField(
+                                  `library-${document.fileId}-until`,
+                                  "Valid until",
+                                  document.validUntil,
+                                  (date) =>
+                                    editDocument(document.fileId, {
+                                      validUntil: date,
+                                    })
+                                )}
+                              </div>
+                            ))}
+                        </CardContent>
+                      </Card>
+                    ))}
+                </div>
+              </div>
+            ))}
+        </div>
+      )}
+    </div>
+  );
+}
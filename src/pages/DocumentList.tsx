@@ -1,38 +1,164 @@
-import React, { useEffect, useState } from "react";
-import { getDocuments, createDownloadLink } from "../services/api";
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
+import { ArrowDown, ArrowUp, Copy, LayoutGrid, Table } from "lucide-react";
+import {
+  DocumentSortField,
+  getAllDocuments,
+  getDocuments,
+  createDownloadLink,
+  downloadFile,
+} from "../services/api";
 import { Card, CardContent } from "../components/ui/card";
 import { Button } from "../components/ui/button";
+import { Input } from "../components/ui/input";
+import { Label } from "../components/ui/label";
+import { Select } from "../components/ui/select";
+import PlotMap from "../components/geo/PlotMap";
+import StatusBadge from "../components/documents/StatusBadge";
+import FileViewer from "../components/documents/FileViewer";
+import DocumentTable from "../components/documents/DocumentTable";
+import ColumnChooser from "../components/documents/ColumnChooser";
+import { getCurrentUser } from "../services/authService";
+import { saveDraft } from "../services/draftService";
+import { listLibrary } from "../services/documentLibraryService";
+import {
+  DocumentListPreferences,
+  getDocumentListPreferences,
+  saveDocumentListPreferences,
+} from "../services/preferencesService";
+import { toGeometry } from "../lib/geo";
+import { draftFromDocument } from "../lib/submissionCopy";
+import { countries } from "../lib/countries";
+import { getStatus, statusLabels } from "../lib/status";
+import {
+  DocumentFilters,
+  filtersFromSearchParams,
+  filtersToSearchParams,
+  hasActiveFilters,
+  sortFields,
+} from "../lib/documentQuery";
+import { SubmissionKey, fileIdsOf, labelFor } from "../lib/submissionSchema";
+import { columnsFor, exportCsv, exportXlsx } from "../lib/submissionTable";
+import { Document, SubmissionStatus } from "../types/submission";
 
-interface Document {
-  _id: string;
-  tradeName: string;
-  commodities: string;
-  files: Record<string, string>;
-  createdAt: string;
-}
+const PAGE_SIZE = 20;
+// Page size used when collecting the full filtered set for export
+const EXPORT_PAGE_SIZE = 100;
 
 export default function DocumentList() {
   const [documents, setDocuments] = useState<Document[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [total, setTotal] = useState<number | null>(null);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [error, setError] = useState("");
+  const [searchParams, setSearchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const filters = useMemo(
+    () => filtersFromSearchParams(searchParams),
+    [searchParams]
+  );
+  // The filters of the list on screen, so a page loaded for older filters
+  // can be dropped
+  const currentFilters = useRef(filters);
+  const [searchText, setSearchText] = useState(filters.search || "");
+  const [viewer, setViewer] = useState<{ file: Blob; name: string } | null>(
+    null
+  );
+  const [openingFile, setOpeningFile] = useState<string | null>(null);
+  const userId = getCurrentUser()?.user.id;
+  const [preferences, setPreferences] = useState<DocumentListPreferences>(() =>
+    getDocumentListPreferences(userId)
+  );
+  const [exporting, setExporting] = useState(false);
+  const visibleColumns = columnsFor(preferences.columns);
+
+  const updatePreferences = (changes: Partial<DocumentListPreferences>) => {
+    const next = { ...preferences, ...changes };
+    setPreferences(next);
+    saveDocumentListPreferences(userId, next);
+  };
+
+  const updateFilters = (changes: Partial<DocumentFilters>) =>
+    setSearchParams(filtersToSearchParams({ ...filters, ...changes }), {
+      replace: true,
+    });
+
+  // Follow the URL when it changes from outside the search box, e.g. on back
+  useEffect(() => {
+    setSearchText(filters.search || "");
+  }, [filters.search]);
+
+  // Search as the user types, once they pause
+  useEffect(() => {
+    if (searchText.trim() === (filters.search || "")) return;
+    const timer = setTimeout(
+      () =>
+        setSearchParams(
+          filtersToSearchParams({ ...filters, search: searchText.trim() }),
+          { replace: true }
+        ),
+      300
+    );
+    return () => clearTimeout(timer);
+  }, [searchText, filters, setSearchParams]);
 
   useEffect(() => {
-    loadDocuments();
-  }, []);
+    let cancelled = false;
+    currentFilters.current = filters;
+    setLoading(true);
+    setLoadingMore(false);
+    setError("");
+
+    getDocuments({ ...filters, limit: PAGE_SIZE })
+      .then((result) => {
+        if (cancelled) return;
+        if (result.success) {
+          setDocuments(result.data);
+          setNextCursor(result.nextCursor || null);
+          setTotal(result.total ?? null);
+        } else {
+          setError("Failed to load documents");
+        }
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setError("Error loading documents");
+        console.error(err);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [filters]);
 
-  const loadDocuments = async () => {
+  const handleLoadMore = async () => {
+    if (!nextCursor) return;
+    const requested = filters;
+    const isStale = () => currentFilters.current !== requested;
     try {
-      const result = await getDocuments();
+      setLoadingMore(true);
+      const result = await getDocuments({
+        ...requested,
+        cursor: nextCursor,
+        limit: PAGE_SIZE,
+      });
+      if (isStale()) return;
       if (result.success) {
-        setDocuments(result.data);
+        setDocuments((prev) => [...prev, ...result.data]);
+        setNextCursor(result.nextCursor || null);
       } else {
-        setError("Failed to load documents");
+        setError("Failed to load more documents");
       }
     } catch (err) {
+      if (isStale()) return;
       setError("Error loading documents");
       console.error(err);
     } finally {
-      setLoading(false);
+      if (!isStale()) setLoadingMore(false);
     }
   };
 
@@ -46,58 +172,390 @@ export default function DocumentList() {
     }
   };
 
-  if (loading) return <div>Loading...</div>;
-  if (error) return <div className="text-red-500">{error}</div>;
+  const handleView = async (fileId: string, fileName: string) => {
+    try {
+      setOpeningFile(fileId);
+      const blob = await downloadFile(fileId);
+      setViewer({ file: blob, name: fileName });
+    } catch (err) {
+      console.error("Error opening file:", err);
+      setError("Failed to open file. Please try again.");
+    } finally {
+      setOpeningFile(null);
+    }
+  };
+
+  // Starts a new draft from the submission, without its shipment-specific
+  // quantity and documents
+  const handleDuplicate = async (document: Document) => {
+    if (!userId) return;
+    try {
+      const library = await listLibrary(userId);
+      const draft = draftFromDocument(document, userId, library);
+      await saveDraft(draft);
+      navigate(`/?draft=${draft.id}`);
+    } catch (err) {
+      console.error("Error duplicating submission:", err);
+      setError("Failed to duplicate the submission. Please try again.");
+    }
+  };
+
+  const handleSort = (field: DocumentSortField) =>
+    updateFilters(
+      field === filters.sort
+        ? { order: filters.order === "asc" ? "desc" : "asc" }
+        : { sort: field, order: "asc" }
+    );
+
+  // Exports every submission matching the filters, not just the loaded pages
+  const handleExport = async (format: "csv" | "xlsx") => {
+    try {
+      setExporting(true);
+      const all = await getAllDocuments(filters, EXPORT_PAGE_SIZE);
+
+      const fileName = `submissions-${new Date().toISOString().slice(0, 10)}`;
+      if (format === "csv") {
+        exportCsv(all, visibleColumns, fileName);
+      } else {
+        await exportXlsx(all, visibleColumns, fileName);
+      }
+    } catch (err) {
+      console.error("Error exporting submissions:", err);
+      setError("Failed to export submissions. Please try again.");
+    } finally {
+      setExporting(false);
+    }
+  };
 
   return (
     <div className="max-w-7xl mx-auto p-6">
-      <h1 className="text-2xl font-bold mb-6">Submitted Documents</h1>
-      <div className="grid gap-6">
-        {documents.map((doc) => (
-          <Card key={doc._id} className="shadow-md">
-            <CardContent className="p-6">
-              <div className="grid gap-4">
-                <div>
-                  <h2 className="text-xl font-semibold">
-                    {doc.tradeName || "Untitled"}
-                  </h2>
-                  <p className="text-gray-600">
-                    {doc.commodities || "No commodities specified"}
-                  </p>
-                  <p className="text-sm text-gray-500">
-                    Submitted on: {new Date(doc.createdAt).toLocaleDateString()}
-                  </p>
-                </div>
-
-                <div className="border-t pt-4">
-                  <h3 className="font-medium mb-2">Uploaded Files:</h3>
-                  <div className="grid grid-cols-2 gap-4">
-                    {Object.entries(doc.files || {}).map(([key, fileId]) =>
-                      fileId ? (
-                        <div
-                          key={key}
-                          className="flex items-center justify-between bg-gray-50 p-2 rounded"
-                        >
-                          <span className="text-sm truncate">{key}</span>
-                          <Button
-                            onClick={() =>
-                              handleDownload(fileId, `${key}_${doc._id}`)
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <h1 className="text-2xl font-bold">Submitted Documents</h1>
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="flex rounded-md border">
+            <Button
+              variant={preferences.view === "cards" ? "secondary" : "ghost"}
+              size="sm"
+              onClick={() => updatePreferences({ view: "cards" })}
+              aria-pressed={preferences.view === "cards"}
+            >
+              <LayoutGrid className="h-4 w-4 mr-2" />
+              Cards
+            </Button>
+            <Button
+              variant={preferences.view === "table" ? "secondary" : "ghost"}
+              size="sm"
+              onClick={() => updatePreferences({ view: "table" })}
+              aria-pressed={preferences.view === "table"}
+            >
+              <Table className="h-4 w-4 mr-2" />
+              Table
+            </Button>
+          </div>
+          {preferences.view === "table" && (
+            <ColumnChooser
+              selected={preferences.columns}
+              onChange={(columns) => updatePreferences({ columns })}
+            />
+          )}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => handleExport("csv")}
+            disabled={exporting || documents.length === 0}
+          >
+            Export CSV
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => handleExport("xlsx")}
+            disabled={exporting || documents.length === 0}
+          >
+            {exporting ? "Exporting..." : "Export XLSX"}
+          </Button>
+        </div>
+      </div>
+
+      <Card className="shadow-md mb-6">
+        <CardContent className="p-6 grid gap-4 md:grid-cols-3 lg:grid-cols-6 items-end">
+          <div className="space-y-1 md:col-span-3 lg:col-span-2">
+            <Label htmlFor="search">Search</Label>
+            <Input
+              id="search"
+              type="search"
+              value={searchText}
+              onChange={(e) => setSearchText(e.target.value)}
+              placeholder="Trade name, commodity or species"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="from">Submitted from</Label>
+            <Input
+              id="from"
+              type="date"
+              value={filters.from || ""}
+              max={filters.to}
+              onChange={(e) => updateFilters({ from: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="to">Submitted to</Label>
+            <Input
+              id="to"
+              type="date"
+              value={filters.to || ""}
+              min={filters.from}
+              onChange={(e) => updateFilters({ to: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="country">Country</Label>
+            <Select
+              id="country"
+              value={filters.country || ""}
+              onChange={(e) =>
+                updateFilters({ country: e.target.value || undefined })
+              }
+            >
+              <option value="">All countries</option>
+              {countries.map((country) => (
+                <option key={country.code} value={country.code}>
+                  {country.name}
+                </option>
+              ))}
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="status">Status</Label>
+            <Select
+              id="status"
+              value={filters.status || ""}
+              onChange={(e) =>
+                updateFilters({
+                  status: (e.target.value || undefined) as
+                    | SubmissionStatus
+                    | undefined,
+                })
+              }
+            >
+              <option value="">Any status</option>
+              {Object.entries(statusLabels).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </Select>
+          </div>
+          <div className="space-y-1 lg:col-span-2">
+            <Label htmlFor="sort">Sort by</Label>
+            <div className="flex gap-2">
+              <Select
+                id="sort"
+                value={filters.sort}
+                onChange={(e) =>
+                  updateFilters({ sort: e.target.value as DocumentSortField })
+                }
+              >
+                {Object.entries(sortFields).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </Select>
+              <Button
+                variant="outline"
+                size="icon"
+                className="shrink-0"
+                onClick={() =>
+                  updateFilters({
+                    order: filters.order === "asc" ? "desc" : "asc",
+                  })
+                }
+                aria-label={
+                  filters.order === "asc" ? "Sort descending" : "Sort ascending"
+                }
+              >
+                {filters.order === "asc" ? (
+                  <ArrowUp className="h-4 w-4" />
+                ) : (
+                  <ArrowDown className="h-4 w-4" />
+                )}
+              </Button>
+            </div>
+          </div>
+          <div className="flex items-center gap-4 md:col-span-3 lg:col-span-4 text-sm text-gray-600">
+            {!loading &&
+              (total !== null
+                ? `Showing ${documents.length} of ${total} submissions`
+                : `Showing ${documents.length} submissions`)}
+            {hasActiveFilters(filters) && (
+              <Button
+                variant="link"
+                size="sm"
+                onClick={() => {
+                  setSearchText("");
+                  setSearchParams(
+                    filtersToSearchParams({
+                      sort: filters.sort,
+                      order: filters.order,
+                    }),
+                    { replace: true }
+                  );
+                }}
+              >
+                Clear filters
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {error && <div className="text-red-500 mb-6">{error}</div>}
+      {loading && <div>Loading...</div>}
+      {!loading && !error && documents.length === 0 && (
+        <p className="text-gray-600">No submissions match these filters.</p>
+      )}
+
+      {preferences.view === "table" ? (
+        !loading &&
+        documents.length > 0 && (
+          <DocumentTable
+            documents={documents}
+            columns={visibleColumns}
+            sort={filters.sort}
+            order={filters.order}
+            onSort={handleSort}
+            onDuplicate={handleDuplicate}
+          />
+        )
+      ) : (
+        <div className="grid gap-6">
+          {!loading &&
+            documents.map((doc) => {
+              const geometry = toGeometry(doc.geolocationPolygon);
+              return (
+                <Card key={doc._id} className="shadow-md">
+                  <CardContent className="p-6">
+                    <div className="grid gap-4">
+                      <div className="flex justify-between gap-4">
+                        <div>
+                          <div className="flex items-center gap-3">
+                            <h2 className="text-xl font-semibold">
+                              <Link
+                                to={`/documents/${doc._id}`}
+                                className="hover:text-indigo-600"
+                              >
+                                {doc.tradeName || "Untitled"}
+                              </Link>
+                            </h2>
+                            <StatusBadge status={getStatus(doc.status)} />
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleDuplicate(doc)}
+                            >
+                              <Copy className="h-4 w-4 mr-2" />
+                              Duplicate
+                            </Button>
+                          </div>
+                          <p className="text-gray-600">
+                            {doc.commodities || "No commodities specified"}
+                          </p>
+                          <p className="text-sm text-gray-500">
+                            Submitted on:{" "}
+                            {new Date(doc.createdAt).toLocaleDateString()}
+                          </p>
+                        </div>
+                        {geometry ? (
+                          <div className="w-40 shrink-0">
+                            <PlotMap geometry={geometry} thumbnail />
+                          </div>
+                        ) : (
+                          <div className="w-40 h-[120px] shrink-0 rounded-md border bg-slate-50 flex items-center justify-center text-xs text-gray-400">
+                            No plot geometry
+                          </div>
+                        )}
+                      </div>
+
+                      <div className="border-t pt-4">
+                        <h3 className="font-medium mb-2">Uploaded Files:</h3>
+                        <div className="grid grid-cols-2 gap-4">
+                          {Object.entries(doc.files || {}).flatMap(
+                            ([key, value]) => {
+                              const fileIds = fileIdsOf(value);
+                              return fileIds.map((fileId, index) => {
+                                const label =
+                                  fileIds.length > 1
+                                    ? `${labelFor(key as SubmissionKey)} (${
+                                        index + 1
+                                      } of ${fileIds.length})`
+                                    : labelFor(key as SubmissionKey);
+                                return (
+                                  <div
+                                    key={fileId}
+                                    className="flex items-center justify-between bg-gray-50 p-2 rounded"
+                                  >
+                                    <span className="text-sm truncate">
+                                      {label}
+                                    </span>
+                                    <div className="flex gap-2 ml-2">
+                                      <Button
+                                        onClick={() =>
+                                          handleView(fileId, label)
+                                        }
+                                        variant="outline"
+                                        size="sm"
+                                        disabled={openingFile === fileId}
+                                      >
+                                        {openingFile === fileId
+                                          ? "Opening..."
+                                          : "View"}
+                                      </Button>
+                                      <Button
+                                        onClick={() =>
+                                          handleDownload(
+                                            fileId,
+                                            fileIds.length > 1
+                                              ? `${key}_${doc._id}_${index + 1}`
+                                              : `${key}_${doc._id}`
+                                          )
+                                        }
+                                        size="sm"
+                                      >
+                                        Download
+                                      </Button>
+                                    </div>
+                                  </div>
+                                );
+                              });
                             }
-                            className="ml-2"
-                            size="sm"
-                          >
-                            Download
-                          </Button>
+                          )}
                         </div>
-                      ) : null
-                    )}
-                  </div>
-                </div>
-              </div>
-            </CardContent>
-          </Card>
-        ))}
-      </div>
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+        </div>
+      )}
+      {!loading && nextCursor && (
+        <div className="flex justify-center mt-6">
+          <Button
+            variant="outline"
+            onClick={handleLoadMore}
+            disabled={loadingMore}
+          >
+            {loadingMore ? "Loading..." : "Load more"}
+          </Button>
+        </div>
+      )}
+      <FileViewer
+        file={viewer?.file || null}
+        fileName={viewer?.name || ""}
+        onClose={() => setViewer(null)}
+      />
     </div>
   );
 }
@@ -0,0 +1,99 @@
+import React, { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { Card, CardContent } from "../components/ui/card";
+import { Button } from "../components/ui/button";
+import { getCurrentUser } from "../services/authService";
+import { Draft, deleteDraft, listDrafts } from "../services/draftService";
+
+export default function DraftList() {
+  const [drafts, setDrafts] = useState<Draft[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const userId = getCurrentUser()?.user.id;
+
+  useEffect(() => {
+    const loadDrafts = async () => {
+      if (!userId) return;
+      try {
+        setDrafts(await listDrafts(userId));
+      } catch (err) {
+        setError("Error loading drafts");
+        console.error(err);
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadDrafts();
+  }, [userId]);
+
+  const handleDelete = async (draft: Draft) => {
+    if (!window.confirm(`Delete draft "${draft.name}"?`)) return;
+    try {
+      await deleteDraft(draft.id);
+      setDrafts((prev) => prev.filter((item) => item.id !== draft.id));
+    } catch (err) {
+      console.error("Error deleting draft:", err);
+      setError("Failed to delete draft. Please try again.");
+    }
+  };
+
+  if (loading) return <div>Loading...</div>;
+  if (error) return <div className="text-red-500">{error}</div>;
+
+  return (
+    <div className="max-w-7xl mx-auto p-6">
+      <h1 className="text-2xl font-bold mb-6">Saved Drafts</h1>
+      {drafts.length === 0 ? (
+        <p className="text-gray-600">
+          No drafts yet. Drafts are saved automatically while you fill in the{" "}
+          <Link to="/" className="text-indigo-600 hover:text-indigo-500">
+            documentation form
+          </Link>
+          .
+        </p>
+      ) : (
+        <div className="grid gap-4">
+          {drafts.map((draft) => {
+            const fileCount =
+              Object.values(draft.fileData).reduce(
+                (count, files) => count + files.length,
+                0
+              ) +
+              Object.values(draft.libraryAttachments).reduce(
+                (count, documents) => count + (documents || []).length,
+                0
+              );
+            return (
+              <Card key={draft.id} className="shadow-md">
+                <CardContent className="p-6 flex items-center justify-between gap-4">
+                  <div>
+                    <h2 className="text-lg font-semibold">{draft.name}</h2>
+                    <p className="text-gray-600">
+                      {draft.formData.tradeName || "No trade name yet"} ·{" "}
+                      {fileCount} file{fileCount === 1 ? "" : "s"} attached
+                    </p>
+                    <p className="text-sm text-gray-500">
+                      Last saved: {new Date(draft.updatedAt).toLocaleString()}
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button asChild size="sm">
+                      <Link to={`/?draft=${draft.id}`}>Resume</Link>
+                    </Button>
+                    <Button
+                      variant="destructive"
+                      size="sm"
+                      onClick={() => handleDelete(draft)}
+                    >
+                      Delete
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
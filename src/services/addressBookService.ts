@@ -0,0 +1,91 @@
+import { AddressBookEntry, Party } from "../types/submission";
+import { partyKey, toParty } from "../lib/parties";
+import {
+  AddressBookResponse,
+  addToAddressBook,
+  getAddressBook,
+  removeFromAddressBook,
+} from "./api";
+
+// The address book is stored on the server with the account, so it is the
+// same in every browser
+
+// Earlier versions kept the address book in this browser's localStorage
+const legacyStorageKey = (userId: string) => `addressBook:${userId}`;
+
+// Entries saved before parties were structured hold free text
+const unwrap = (result: AddressBookResponse): AddressBookEntry[] => {
+  if (!result.success) {
+    throw new Error(result.error || "The address book request failed");
+  }
+  return result.data
+    .map((entry) => ({ ...entry, party: toParty(entry.party) }))
+    .filter((entry): entry is AddressBookEntry => entry.party !== null);
+};
+
+// Moves an address book kept in this browser to the server, once
+const moveLegacyAddressBook = async (userId: string): Promise<void> => {
+  const stored = localStorage.getItem(legacyStorageKey(userId));
+  if (stored === null) return;
+  let entries: unknown = [];
+  try {
+    entries = JSON.parse(stored);
+  } catch (error) {
+    console.error("Error reading the stored address book:", error);
+  }
+  if (Array.isArray(entries) && entries.length > 0) {
+    unwrap(await addToAddressBook(entries));
+  }
+  localStorage.removeItem(legacyStorageKey(userId));
+};
+
+export const listAddressBook = async (
+  userId: string | undefined
+): Promise<AddressBookEntry[]> => {
+  if (!userId) return [];
+  try {
+    await moveLegacyAddressBook(userId);
+    return unwrap(await getAddressBook());
+  } catch (error) {
+    console.error("Error loading address book:", error);
+    throw error;
+  }
+};
+
+// Adds or refreshes parties, most recently used first
+export const rememberParties = async (
+  userId: string | undefined,
+  parties: Party[]
+): Promise<AddressBookEntry[]> => {
+  if (!userId) return [];
+  const now = new Date().toISOString();
+  const used = parties
+    .filter((party) => party.legalName.trim())
+    .map((party) => ({ key: partyKey(party), party, lastUsedAt: now }));
+  try {
+    return unwrap(
+      await addToAddressBook(
+        used.filter(
+          (entry, index) =>
+            used.findIndex((other) => other.key === entry.key) === index
+        )
+      )
+    );
+  } catch (error) {
+    console.error("Error saving to address book:", error);
+    throw error;
+  }
+};
+
+export const forgetParty = async (
+  userId: string | undefined,
+  key: string
+): Promise<AddressBookEntry[]> => {
+  if (!userId) return [];
+  try {
+    return unwrap(await removeFromAddressBook(key));
+  } catch (error) {
+    console.error("Error removing from address book:", error);
+    throw error;
+  }
+};
@@ -1,5 +1,14 @@
 import axios from "axios";
 import { getAuthHeader } from "./authService";
+import {
+  AddressBookEntry,
+  Document,
+  DocumentVersion,
+  FileData,
+  LibraryDocument,
+  StatusHistoryEntry,
+  SubmissionStatus,
+} from "../types/submission";
 
 const API_URL =
   process.env.REACT_APP_API_URL ||
@@ -44,26 +53,177 @@ interface FileUploadResponse {
   fileName: string;
 }
 
-export const submitDocument = async (formData: any, fileData: any) => {
+export type UploadStatus =
+  | "pending"
+  | "uploading"
+  | "retrying"
+  | "done"
+  | "error"
+  | "cancelled";
+
+export interface FileUploadState {
+  status: UploadStatus;
+  progress: number;
+  fileId?: string;
+  error?: string;
+}
+
+export interface UploadOptions {
+  onProgress?: (percent: number) => void;
+  signal?: AbortSignal;
+}
+
+export interface SubmitOptions {
+  // File IDs uploaded by an earlier attempt, keyed by uploadKey; these are not re-uploaded
+  uploadedFileIds?: Record<string, string>;
+  // Files already on the server, e.g. from the document library, per
+  // category; they are sent ahead of the category's new uploads
+  existingFileIds?: Partial<Record<string, string[]>>;
+  // Saves a new version of this submission instead of a new submission
+  amendDocumentId?: string;
+  onUploadStateChange?: (key: string, state: FileUploadState) => void;
+  signals?: Record<string, AbortSignal>;
+}
+
+// Identifies one file within a category across submit attempts and reorders
+export const uploadKey = (category: string, file: File): string =>
+  `${category}:${file.name}:${file.size}:${file.lastModified}`;
+
+// Backoff between attempts for transient upload failures
+const RETRY_DELAYS = [1000, 2000, 4000];
+
+export const isCancelledError = (error: unknown): boolean =>
+  axios.isCancel(error);
+
+const isTransientError = (error: unknown): boolean => {
+  if (axios.isCancel(error)) return false;
+  // Anything but a failed request, e.g. a bug, won't go away on retry
+  if (!axios.isAxiosError(error)) return false;
+  const status = error.response?.status;
+  // No response at all means a network failure or timeout
+  if (!status) return true;
+  return status >= 500 || status === 408 || status === 429;
+};
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new axios.CanceledError());
+      return;
+    }
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        reject(new axios.CanceledError());
+      },
+      { once: true }
+    );
+  });
+
+export const submitDocument = async (
+  formData: any,
+  fileData: FileData,
+  options: SubmitOptions = {}
+) => {
+  const {
+    uploadedFileIds = {},
+    existingFileIds = {},
+    amendDocumentId,
+    onUploadStateChange,
+    signals = {},
+  } = options;
+
   try {
-    // First, upload all files
-    const fileUploads = await Promise.all(
-      Object.entries(fileData)
-        .filter(([_, file]) => file !== null)
-        .map(async ([key, file]) => {
-          const uploadResult = await uploadFile(file as File);
-          return [key, uploadResult.fileId];
-        })
+    // First, upload every file not already uploaded by an earlier attempt.
+    // allSettled so one failure doesn't hide the state of the others.
+    const categories = Object.entries(fileData) as Array<[string, File[]]>;
+    const entries = categories.flatMap(([category, files]) =>
+      files.map((file) => [uploadKey(category, file), file] as const)
+    );
+
+    const results = await Promise.allSettled(
+      entries.map(async ([key, file]) => {
+        const existingId = uploadedFileIds[key];
+        if (existingId) {
+          onUploadStateChange?.(key, {
+            status: "done",
+            progress: 100,
+            fileId: existingId,
+          });
+          return existingId;
+        }
+
+        onUploadStateChange?.(key, { status: "uploading", progress: 0 });
+        try {
+          const uploadResult = await uploadFileWithRetry(
+            file,
+            {
+              signal: signals[key],
+              onProgress: (progress) =>
+                onUploadStateChange?.(key, { status: "uploading", progress }),
+            },
+            () =>
+              onUploadStateChange?.(key, { status: "retrying", progress: 0 })
+          );
+          onUploadStateChange?.(key, {
+            status: "done",
+            progress: 100,
+            fileId: uploadResult.fileId,
+          });
+          return uploadResult.fileId;
+        } catch (error: any) {
+          onUploadStateChange?.(
+            key,
+            isCancelledError(error)
+              ? { status: "cancelled", progress: 0 }
+              : {
+                  status: "error",
+                  progress: 0,
+                  error:
+                    error.response?.data?.error ||
+                    error.message ||
+                    "Upload failed",
+                }
+          );
+          throw error;
+        }
+      })
     );
 
-    // Create files object with uploaded file IDs
-    const files = Object.fromEntries(fileUploads);
+    const failedCount = results.filter(
+      (result) => result.status === "rejected"
+    ).length;
+    if (failedCount > 0) {
+      throw new Error(
+        `${failedCount} file${
+          failedCount === 1 ? "" : "s"
+        } could not be uploaded. Retry to upload only the missing files.`
+      );
+    }
+
+    // Create files object with the existing and uploaded file IDs of each
+    // category, in order
+    const uploadedIds = results.map(
+      (result) => (result as PromiseFulfilledResult<string>).value
+    );
+    let next = 0;
+    const files = Object.fromEntries(
+      categories
+        .map(([category, categoryFiles]): [string, string[]] => {
+          const ids = uploadedIds.slice(next, next + categoryFiles.length);
+          next += categoryFiles.length;
+          return [category, [...(existingFileIds[category] || []), ...ids]];
+        })
+        .filter(([_, ids]) => ids.length > 0)
+    );
 
     // Submit the form data with file references
-    const response = await api.post("/submit", {
-      ...formData,
-      files,
-    });
+    const response = await api.post(
+      amendDocumentId ? `/documents/${amendDocumentId}/versions` : "/submit",
+      { ...formData, files }
+    );
 
     return response.data;
   } catch (error) {
@@ -72,7 +232,10 @@ export const submitDocument = async (formData: any, fileData: any) => {
   }
 };
 
-export const uploadFile = async (file: File): Promise<FileUploadResponse> => {
+export const uploadFile = async (
+  file: File,
+  options: UploadOptions = {}
+): Promise<FileUploadResponse> => {
   try {
     console.log("Starting file upload:", file.name);
     const formData = new FormData();
@@ -82,6 +245,12 @@ export const uploadFile = async (file: File): Promise<FileUploadResponse> => {
       headers: {
         "Content-Type": "multipart/form-data",
       },
+      signal: options.signal,
+      onUploadProgress: (event) => {
+        if (event.total) {
+          options.onProgress?.(Math.round((event.loaded * 100) / event.total));
+        }
+      },
     });
 
     console.log("Upload successful:", response.data);
@@ -92,9 +261,65 @@ export const uploadFile = async (file: File): Promise<FileUploadResponse> => {
   }
 };
 
-export const getDocuments = async () => {
+export const uploadFileWithRetry = async (
+  file: File,
+  options: UploadOptions = {},
+  onRetry?: (attempt: number) => void
+): Promise<FileUploadResponse> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await uploadFile(file, options);
+    } catch (error) {
+      if (attempt >= RETRY_DELAYS.length || !isTransientError(error)) {
+        throw error;
+      }
+      onRetry?.(attempt + 1);
+      await wait(RETRY_DELAYS[attempt], options.signal);
+    }
+  }
+};
+
+export type DocumentSortField =
+  | "createdAt"
+  | "tradeName"
+  | "quantity"
+  | "status";
+
+export interface DocumentQuery {
+  // Matched against trade name, commodities and species names
+  search?: string;
+  // ISO dates bounding createdAt, inclusive
+  from?: string;
+  to?: string;
+  country?: string;
+  status?: SubmissionStatus;
+  sort?: DocumentSortField;
+  order?: "asc" | "desc";
+  // Opaque cursor from the previous page's nextCursor
+  cursor?: string;
+  limit?: number;
+}
+
+export interface DocumentListResponse {
+  success: boolean;
+  data: Document[];
+  // Absent on the last page
+  nextCursor?: string | null;
+  total?: number;
+  error?: string;
+}
+
+export const getDocuments = async (
+  query: DocumentQuery = {}
+): Promise<DocumentListResponse> => {
   try {
-    const response = await api.get("/documents");
+    // Leave out empty filters so the server applies its defaults
+    const params = Object.fromEntries(
+      Object.entries(query).filter(
+        ([_, value]) => value !== undefined && value !== ""
+      )
+    );
+    const response = await api.get("/documents", { params });
     return response.data;
   } catch (error) {
     console.error("Error fetching documents:", error);
@@ -102,6 +327,24 @@ export const getDocuments = async () => {
   }
 };
 
+// Follows the cursor through every page matching the query
+export const getAllDocuments = async (
+  query: Omit<DocumentQuery, "cursor" | "limit"> = {},
+  pageSize = 100
+): Promise<Document[]> => {
+  const all: Document[] = [];
+  let cursor: string | undefined;
+  do {
+    const result = await getDocuments({ ...query, cursor, limit: pageSize });
+    if (!result.success) {
+      throw new Error(result.error || "Failed to fetch documents");
+    }
+    all.push(...result.data);
+    cursor = result.nextCursor || undefined;
+  } while (cursor);
+  return all;
+};
+
 export const getDocument = async (id: string) => {
   try {
     const response = await api.get(`/documents/${id}`);
@@ -112,6 +355,165 @@ export const getDocument = async (id: string) => {
   }
 };
 
+export interface DocumentStatusResponse {
+  success: boolean;
+  data: {
+    status: SubmissionStatus;
+    statusHistory: StatusHistoryEntry[];
+  };
+  error?: string;
+}
+
+export const getDocumentStatus = async (
+  id: string
+): Promise<DocumentStatusResponse> => {
+  try {
+    const response = await api.get(`/documents/${id}/status`);
+    return response.data;
+  } catch (error) {
+    console.error("Error fetching document status:", error);
+    throw error;
+  }
+};
+
+export interface DocumentVersionsResponse {
+  success: boolean;
+  // Oldest first
+  data: DocumentVersion[];
+  error?: string;
+}
+
+export const getDocumentVersions = async (
+  id: string
+): Promise<DocumentVersionsResponse> => {
+  try {
+    const response = await api.get(`/documents/${id}/versions`);
+    return response.data;
+  } catch (error) {
+    console.error("Error fetching document versions:", error);
+    throw error;
+  }
+};
+
+export const transitionDocumentStatus = async (
+  id: string,
+  status: SubmissionStatus,
+  comment?: string
+): Promise<DocumentStatusResponse> => {
+  try {
+    const response = await api.post(`/documents/${id}/status`, {
+      status,
+      comment,
+    });
+    return response.data;
+  } catch (error) {
+    console.error("Error updating document status:", error);
+    throw error;
+  }
+};
+
+export interface LibraryResponse {
+  success: boolean;
+  // The account's whole library, most recently used first
+  data: LibraryDocument[];
+  error?: string;
+}
+
+export const getLibrary = async (): Promise<LibraryResponse> => {
+  try {
+    const response = await api.get("/library");
+    return response.data;
+  } catch (error) {
+    console.error("Error fetching document library:", error);
+    throw error;
+  }
+};
+
+// Documents already in the library keep their details and take the given
+// lastUsedAt
+export const addToLibrary = async (
+  documents: LibraryDocument[]
+): Promise<LibraryResponse> => {
+  try {
+    const response = await api.post("/library", { documents });
+    return response.data;
+  } catch (error) {
+    console.error("Error adding to document library:", error);
+    throw error;
+  }
+};
+
+export const updateInLibrary = async (
+  fileId: string,
+  changes: Partial<Omit<LibraryDocument, "fileId">>
+): Promise<LibraryResponse> => {
+  try {
+    const response = await api.patch(`/library/${fileId}`, changes);
+    return response.data;
+  } catch (error) {
+    console.error("Error updating document library:", error);
+    throw error;
+  }
+};
+
+// Only removes the library entry; the file stays on the server, where
+// earlier submissions still reference it
+export const removeFromLibrary = async (
+  fileId: string
+): Promise<LibraryResponse> => {
+  try {
+    const response = await api.delete(`/library/${fileId}`);
+    return response.data;
+  } catch (error) {
+    console.error("Error removing from document library:", error);
+    throw error;
+  }
+};
+
+export interface AddressBookResponse {
+  success: boolean;
+  // The account's whole address book, most recently used first
+  data: AddressBookEntry[];
+  error?: string;
+}
+
+export const getAddressBook = async (): Promise<AddressBookResponse> => {
+  try {
+    const response = await api.get("/address-book");
+    return response.data;
+  } catch (error) {
+    console.error("Error fetching address book:", error);
+    throw error;
+  }
+};
+
+// Entries replace any already stored under the same key
+export const addToAddressBook = async (
+  entries: AddressBookEntry[]
+): Promise<AddressBookResponse> => {
+  try {
+    const response = await api.post("/address-book", { entries });
+    return response.data;
+  } catch (error) {
+    console.error("Error adding to address book:", error);
+    throw error;
+  }
+};
+
+export const removeFromAddressBook = async (
+  key: string
+): Promise<AddressBookResponse> => {
+  try {
+    const response = await api.delete(
+      `/address-book/${encodeURIComponent(key)}`
+    );
+    return response.data;
+  } catch (error) {
+    console.error("Error removing from address book:", error);
+    throw error;
+  }
+};
+
 export const downloadFile = async (fileId: string): Promise<Blob> => {
   try {
     console.log("Starting file download:", fileId);
@@ -9,6 +9,8 @@ export interface AuthResponse {
     id: string;
     username: string;
     email: string;
+    // Reviewers belong to ITC's compliance team; everyone else is a supplier
+    role?: "supplier" | "reviewer";
   };
   token: string;
 }
@@ -122,6 +124,9 @@ export const getCurrentUser = (): AuthResponse | null => {
   return null;
 };
 
+export const isReviewer = (): boolean =>
+  getCurrentUser()?.user.role === "reviewer";
+
 export const getAuthHeader = (): { Authorization: string } => {
   const user = getCurrentUser();
   if (user?.token) {
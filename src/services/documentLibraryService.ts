@@ -0,0 +1,98 @@
+import { LibraryDocument } from "../types/submission";
+import {
+  LibraryResponse,
+  addToLibrary,
+  getLibrary,
+  removeFromLibrary,
+  updateInLibrary,
+} from "./api";
+
+// The document library is stored on the server with the account, so it is
+// the same in every browser. The files themselves are ordinary uploads.
+
+// Earlier versions kept the library in this browser's localStorage
+const legacyStorageKey = (userId: string) => `documentLibrary:${userId}`;
+
+const unwrap = (result: LibraryResponse): LibraryDocument[] => {
+  if (!result.success) {
+    throw new Error(result.error || "The document library request failed");
+  }
+  return result.data;
+};
+
+// Moves a library kept in this browser to the server, once
+const moveLegacyLibrary = async (userId: string): Promise<void> => {
+  const stored = localStorage.getItem(legacyStorageKey(userId));
+  if (stored === null) return;
+  let documents: unknown = [];
+  try {
+    documents = JSON.parse(stored);
+  } catch (error) {
+    console.error("Error reading the stored document library:", error);
+  }
+  if (Array.isArray(documents) && documents.length > 0) {
+    unwrap(await addToLibrary(documents));
+  }
+  localStorage.removeItem(legacyStorageKey(userId));
+};
+
+export const listLibrary = async (
+  userId: string | undefined
+): Promise<LibraryDocument[]> => {
+  if (!userId) return [];
+  try {
+    await moveLegacyLibrary(userId);
+    return unwrap(await getLibrary());
+  } catch (error) {
+    console.error("Error loading document library:", error);
+    throw error;
+  }
+};
+
+// Adds documents or marks ones already in the library as used now
+export const rememberDocuments = async (
+  userId: string | undefined,
+  documents: LibraryDocument[]
+): Promise<LibraryDocument[]> => {
+  if (!userId) return [];
+  const now = new Date().toISOString();
+  try {
+    return unwrap(
+      await addToLibrary(
+        documents.map((document) => ({ ...document, lastUsedAt: now }))
+      )
+    );
+  } catch (error) {
+    console.error("Error saving to document library:", error);
+    throw error;
+  }
+};
+
+export const updateLibraryDocument = async (
+  userId: string | undefined,
+  fileId: string,
+  changes: Partial<Omit<LibraryDocument, "fileId">>
+): Promise<LibraryDocument[]> => {
+  if (!userId) return [];
+  try {
+    return unwrap(await updateInLibrary(fileId, changes));
+  } catch (error) {
+    console.error("Error updating document library:", error);
+    throw error;
+  }
+};
+
+// Only forgets the document; the uploaded file stays on the server, where
+// earlier submissions still reference it
+export const forgetDocument = async (
+  userId: string | undefined,
+  fileId: string
+): Promise<LibraryDocument[]> => {
+  if (!userId) return [];
+  try {
+    return unwrap(await removeFromLibrary(fileId));
+  } catch (error) {
+    console.error("Error removing from document library:", error);
+    throw error;
+  }
+};
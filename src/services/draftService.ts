@@ -0,0 +1,136 @@
+import { CertificateDetails, FormData, FileData } from "../types/submission";
+import { toParty } from "../lib/parties";
+import { parseSpecies } from "../lib/species";
+import { LibraryAttachments } from "../lib/documentLibrary";
+
+// Drafts live in IndexedDB rather than localStorage so the selected
+// File objects are stored alongside the form values.
+const DB_NAME = "pulp-portal";
+const DB_VERSION = 1;
+const STORE = "drafts";
+
+// Set on drafts that correct an earlier submission
+export interface Amendment {
+  documentId: string;
+  // The version being amended
+  version: number;
+  // Why the submission is being amended
+  comment: string;
+}
+
+export interface Draft {
+  id: string;
+  userId: string;
+  name: string;
+  formData: FormData;
+  fileData: FileData;
+  // Certificate details keyed by uploadKey
+  certificates: Record<string, CertificateDetails>;
+  libraryAttachments: LibraryAttachments;
+  // Submitting saves a new version of that submission
+  amendment?: Amendment;
+  geolocationText: string;
+  activeTab: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE)) {
+        const store = db.createObjectStore(STORE, { keyPath: "id" });
+        store.createIndex("userId", "userId", { unique: false });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE, mode);
+      const request = operation(transaction.objectStore(STORE));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+// Brings drafts saved by earlier versions of the form up to date: categories
+// used to hold a single File or null, and contacts used to be free text
+const migrateDraft = (draft: Draft): Draft => ({
+  ...draft,
+  formData: {
+    ...draft.formData,
+    speciesNames: parseSpecies(draft.formData.speciesNames),
+    supplierDetails: toParty(draft.formData.supplierDetails),
+    producerDetails: toParty(draft.formData.producerDetails),
+    geolocationOwnerDetails: toParty(draft.formData.geolocationOwnerDetails),
+  },
+  fileData: Object.fromEntries(
+    Object.entries(draft.fileData).map(([key, value]) => [
+      key,
+      Array.isArray(value) ? value : value ? [value] : [],
+    ])
+  ) as unknown as FileData,
+  certificates: draft.certificates || {},
+  libraryAttachments: draft.libraryAttachments || {},
+});
+
+export const createDraftId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+export const listDrafts = async (userId: string): Promise<Draft[]> => {
+  try {
+    const drafts = await runRequest<Draft[]>("readonly", (store) =>
+      store.index("userId").getAll(userId)
+    );
+    return drafts
+      .map(migrateDraft)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  } catch (error) {
+    console.error("Error loading drafts:", error);
+    throw error;
+  }
+};
+
+export const getDraft = async (id: string): Promise<Draft | undefined> => {
+  try {
+    const draft = await runRequest<Draft | undefined>("readonly", (store) =>
+      store.get(id)
+    );
+    return draft && migrateDraft(draft);
+  } catch (error) {
+    console.error("Error loading draft:", error);
+    throw error;
+  }
+};
+
+export const saveDraft = async (draft: Draft): Promise<void> => {
+  try {
+    await runRequest("readwrite", (store) => store.put(draft));
+  } catch (error) {
+    console.error("Error saving draft:", error);
+    throw error;
+  }
+};
+
+export const deleteDraft = async (id: string): Promise<void> => {
+  try {
+    await runRequest("readwrite", (store) => store.delete(id));
+  } catch (error) {
+    console.error("Error deleting draft:", error);
+    throw error;
+  }
+};
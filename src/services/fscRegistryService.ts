@@ -0,0 +1,79 @@
+import { FscRegistryEntry } from "../lib/fsc";
+
+// The imported snapshot of the FSC public certificate database runs to tens
+// of thousands of rows, too many for localStorage, so it lives in IndexedDB
+const DB_NAME = "pulp-portal-fsc";
+const DB_VERSION = 1;
+const STORE = "registry";
+const SNAPSHOT_ID = "snapshot";
+
+export interface FscRegistrySnapshot {
+  fileName: string;
+  importedAt: string;
+  entries: FscRegistryEntry[];
+}
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(STORE)) {
+        request.result.createObjectStore(STORE);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE, mode);
+      const request = operation(transaction.objectStore(STORE));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+export const getFscRegistry = async (): Promise<
+  FscRegistrySnapshot | undefined
+> => {
+  try {
+    return await runRequest<FscRegistrySnapshot | undefined>(
+      "readonly",
+      (store) => store.get(SNAPSHOT_ID)
+    );
+  } catch (error) {
+    console.error("Error loading FSC registry:", error);
+    throw error;
+  }
+};
+
+// Replaces any earlier snapshot
+export const saveFscRegistry = async (
+  snapshot: FscRegistrySnapshot
+): Promise<void> => {
+  try {
+    await runRequest("readwrite", (store) => store.put(snapshot, SNAPSHOT_ID));
+  } catch (error) {
+    console.error("Error saving FSC registry:", error);
+    throw error;
+  }
+};
+
+export const clearFscRegistry = async (): Promise<void> => {
+  try {
+    await runRequest("readwrite", (store) => store.delete(SNAPSHOT_ID));
+  } catch (error) {
+    console.error("Error clearing FSC registry:", error);
+    throw error;
+  }
+};
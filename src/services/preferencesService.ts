@@ -0,0 +1,47 @@
+import {
+  ColumnKey,
+  DEFAULT_COLUMNS,
+  tableColumns,
+} from "../lib/submissionTable";
+
+// Per-user display preferences for the documents list, kept in localStorage
+export interface DocumentListPreferences {
+  view: "cards" | "table";
+  columns: ColumnKey[];
+}
+
+const storageKey = (userId: string) => `documentListPreferences:${userId}`;
+
+const defaults: DocumentListPreferences = {
+  view: "cards",
+  columns: DEFAULT_COLUMNS,
+};
+
+export const getDocumentListPreferences = (
+  userId: string | undefined
+): DocumentListPreferences => {
+  if (!userId) return defaults;
+  try {
+    const stored = JSON.parse(localStorage.getItem(storageKey(userId)) || "{}");
+    const known = tableColumns.map((column) => column.key);
+    // Drop columns that no longer exist, and show the defaults if none are left
+    const columns: ColumnKey[] = Array.isArray(stored.columns)
+      ? stored.columns.filter((key: ColumnKey) => known.includes(key))
+      : [];
+    return {
+      view: stored.view === "table" ? "table" : "cards",
+      columns: columns.length > 0 ? columns : DEFAULT_COLUMNS,
+    };
+  } catch (error) {
+    console.error("Error reading document list preferences:", error);
+    return defaults;
+  }
+};
+
+export const saveDocumentListPreferences = (
+  userId: string | undefined,
+  preferences: DocumentListPreferences
+) => {
+  if (!userId) return;
+  localStorage.setItem(storageKey(userId), JSON.stringify(preferences));
+};
@@ -0,0 +1,11 @@
+import { Blob, File } from "buffer";
+import { webcrypto } from "crypto";
+
+// Jest's node environment leaves out these web globals, which Node itself
+// provides; tests of file handling run there because jsdom's Blob can't be
+// read
+Object.assign(globalThis, {
+  Blob: globalThis.Blob ?? Blob,
+  File: globalThis.File ?? File,
+  crypto: globalThis.crypto ?? webcrypto,
+});
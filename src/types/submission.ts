@@ -0,0 +1,171 @@
+import { Geometry } from "../lib/geo";
+
+export interface PartyAddress {
+  line1: string;
+  line2: string;
+  city: string;
+  postalCode: string;
+  region: string;
+  // ISO 3166-1 alpha-2
+  country: string;
+}
+
+// A company or person in the supply chain
+export interface Party {
+  legalName: string;
+  registrationNumber: string;
+  vatNumber: string;
+  eoriNumber: string;
+  email: string;
+  phone: string;
+  address: PartyAddress;
+}
+
+// A party used in an earlier submission, so repeat suppliers and producers can
+// be picked instead of typed again
+export interface AddressBookEntry {
+  // partyKey of the party; the same company is stored once
+  key: string;
+  party: Party;
+  lastUsedAt: string;
+}
+
+// A tree species, with the binomial kept apart from the trade name
+export interface Species {
+  commonName: string;
+  // Binomial, e.g. "Eucalyptus globulus"
+  scientificName: string;
+}
+
+export interface FormData {
+  // Basic Details
+  tradeName: string | null;
+  commodities: string | null;
+  speciesNames: Species[];
+  quantity: string | null;
+
+  // Location Info
+  supplierCountry: string | null;
+  productionCountry: string | null;
+  woodOriginCountry: string | null;
+  geolocationPolygon: Geometry | null;
+  // Declared by the supplier for point geolocations, which only plots of up
+  // to 4 ha may use
+  plotAreaHectares: string | null;
+  harvestDates: string | null;
+
+  // Contact Details
+  supplierDetails: Party | null;
+  producerDetails: Party | null;
+  geolocationOwnerDetails: Party | null;
+}
+
+// Each category holds an ordered list of files, e.g. one per truckload
+export interface FileData {
+  // Transaction Documents
+  geoToProducerInvoice: File[];
+  woodTransportDocs: File[];
+  producerToSupplierInvoice: File[];
+  pulpTransportDocs: File[];
+  supplierToITCInvoice: File[];
+  shippingDocs: File[];
+  ddsSummary: File[];
+
+  // Legal Documents
+  legalHarvestDocs: File[];
+  fscCertificates: File[];
+  fscCocCertificate: File[];
+  producerDeclaration: File[];
+  producerLicense: File[];
+  supplierLicense: File[];
+
+  // Compliance Documents
+  ghgCertifications: File[];
+  safetyCertifications: File[];
+  humanRightsPolicies: File[];
+  employeeRecords: File[];
+}
+
+// Captured with each certificate or licence upload; dates are ISO 8601
+export interface CertificateDetails {
+  certificateNumber: string;
+  issuer: string;
+  issueDate: string;
+  expiryDate: string;
+}
+
+// A file uploaded once and attached to later submissions by its file ID, for
+// documents such as licences and policies that don't change from shipment to
+// shipment
+export interface LibraryDocument {
+  fileId: string;
+  category: keyof FileData;
+  fileName: string;
+  // Unknown for files carried over from an earlier submission
+  size?: number;
+  // ISO dates; an empty validUntil means the document doesn't expire
+  validFrom: string;
+  validUntil: string;
+  // Set for certificate categories, which submit these details with the file
+  certificate?: CertificateDetails;
+  addedAt: string;
+  lastUsedAt: string;
+}
+
+export type SubmissionStatus =
+  | "draft"
+  | "submitted"
+  | "under_review"
+  | "changes_requested"
+  | "approved"
+  | "rejected";
+
+export interface StatusHistoryEntry {
+  status: SubmissionStatus;
+  changedAt: string;
+  changedBy?: string;
+  comment?: string;
+}
+
+// A submission as returned by the documents API
+export interface Document
+  extends Partial<
+    Omit<
+      FormData,
+      | "geolocationPolygon"
+      | "speciesNames"
+      | "supplierDetails"
+      | "producerDetails"
+      | "geolocationOwnerDetails"
+    >
+  > {
+  _id: string;
+  // Older submissions hold free text here rather than GeoJSON
+  geolocationPolygon?: unknown;
+  // Older submissions hold "Common name (Binomial)" free text
+  speciesNames?: Species[] | string | null;
+  // Older submissions hold free-text contact details instead of a Party
+  supplierDetails?: Party | string | null;
+  producerDetails?: Party | string | null;
+  geolocationOwnerDetails?: Party | string | null;
+  // Older submissions hold a single file ID per category
+  files: Record<string, string | string[]>;
+  // Details of each certificate file, in the order of its category's files
+  certificates?: Record<string, Array<CertificateDetails | null>>;
+  status?: SubmissionStatus;
+  statusHistory?: StatusHistoryEntry[];
+  // Current version; submissions that were never amended are version 1
+  version?: number;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+// A submission as it stood after it was first submitted or amended
+export interface DocumentVersion {
+  version: number;
+  createdAt: string;
+  createdBy?: string;
+  // Why the submission was amended
+  comment?: string;
+  document: Document;
+}